@@ -0,0 +1,193 @@
+import Image from 'next/image';
+import React, { useMemo } from 'react';
+import { SearchableNode } from './ControlPanel';
+import { Comparison, MAX_COMPARE } from '../lib/compare';
+import { formatScore } from '../lib/popularity';
+
+type CompareModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  nodeList: SearchableNode[];
+  // All current picks; `compareIds` is the subset shown side by side
+  selectedIds: string[];
+  compareIds: string[];
+  onToggleCompare: (nodeId: string) => void;
+  comparison: Comparison | null;
+  onDropPick: (nodeId: string) => void;
+  focusOnNode: (nodeId: string) => void;
+};
+
+// One color per column, reused as the region markers
+const PICK_COLORS = ['#2563eb', '#db2777', '#16a34a', '#d97706'];
+const REGION_PREVIEW = 6;
+
+const getDisplayTitle = (node: SearchableNode) =>
+  node.title_en && node.title_en.trim() !== '' ? node.title_en : node.title;
+
+const RegionRow: React.FC<{
+  label: string;
+  colors: string[];
+  count: number;
+  nodes: { id: string; title: string }[];
+  focusOnNode: (nodeId: string) => void;
+}> = ({ label, colors, count, nodes, focusOnNode }) => (
+  <div className="flex items-start gap-2 p-2 rounded border border-gray-100">
+    <div className="flex -space-x-1 pt-0.5 flex-shrink-0">
+      {colors.map((color, i) => (
+        <span key={i} className="w-3 h-3 rounded-full border border-white" style={{ backgroundColor: color }} />
+      ))}
+    </div>
+    <div className="flex flex-col gap-1 min-w-0 flex-1">
+      <span className="text-[11px] font-bold text-gray-700 truncate">{label} · {count}</span>
+      <div className="flex flex-wrap gap-1">
+        {nodes.map(({ id, title }) => (
+          <button
+            key={id}
+            onClick={() => focusOnNode(id)}
+            className="text-[10px] bg-gray-50 border border-gray-200 text-gray-600 px-1.5 py-0.5 rounded hover:text-blue-600 max-w-[12rem] truncate"
+          >
+            {title}
+          </button>
+        ))}
+      </div>
+    </div>
+  </div>
+);
+
+const CompareModal: React.FC<CompareModalProps> = ({
+  isOpen,
+  onClose,
+  nodeList,
+  selectedIds,
+  compareIds,
+  onToggleCompare,
+  comparison,
+  onDropPick,
+  focusOnNode,
+}) => {
+  const byId = useMemo(() => new Map(nodeList.map((n) => [n.id, n])), [nodeList]);
+  const selectedList = selectedIds.map((id) => byId.get(id)).filter((n): n is SearchableNode => !!n);
+  const columns = compareIds.map((id) => byId.get(id)).filter((n): n is SearchableNode => !!n);
+  const colorOf = (id: string) => PICK_COLORS[compareIds.indexOf(id)] ?? '#94a3b8';
+
+  // Genres every compared title has
+  const sharedGenres = new Set(columns[0]?.genres.filter((g) => columns.every((n) => n.genres.includes(g))));
+
+  const titleOf = (id: string) => {
+    const node = byId.get(id);
+    return node ? getDisplayTitle(node) : id;
+  };
+
+  if (!isOpen) return null;
+
+  const allShared = comparison?.regions.find((r) => r.members.length === columns.length && columns.length > 1);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50 flex-shrink-0">
+          <div>
+            <h3 className="font-bold text-gray-800 text-lg">Compare Picks</h3>
+            <p className="text-xs text-gray-500">See what each pick brings, and which one to drop when nothing is shared.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 font-bold px-2 text-xl">
+            ✕
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto custom-scrollbar flex-1 flex flex-col gap-5">
+          {selectedList.length > MAX_COMPARE && (
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="text-[10px] text-gray-400 mr-1">Compare up to {MAX_COMPARE}:</span>
+              {selectedList.map((node) => {
+                const isOn = compareIds.includes(node.id);
+                return (
+                  <button
+                    key={node.id}
+                    onClick={() => onToggleCompare(node.id)}
+                    disabled={!isOn && compareIds.length >= MAX_COMPARE}
+                    className={`text-[10px] px-2 py-0.5 rounded border max-w-[10rem] truncate transition-colors disabled:opacity-40 ${
+                      isOn ? 'bg-gray-800 text-white border-gray-800' : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    {getDisplayTitle(node)}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Side by side */}
+          <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${Math.max(columns.length, 1)}, minmax(0, 1fr))` }}>
+            {columns.map((node) => (
+              <div key={node.id} className="flex flex-col gap-2 border rounded-lg p-2" style={{ borderColor: colorOf(node.id) }}>
+                <div className="relative aspect-[2/3] rounded overflow-hidden bg-gray-100 cursor-pointer" onClick={() => focusOnNode(node.id)}>
+                  <Image src={node.image_url} alt={node.title} fill className="object-cover" sizes="200px" />
+                </div>
+                <p className="text-xs font-bold text-gray-800 leading-tight line-clamp-2">{getDisplayTitle(node)}</p>
+                <div className="flex flex-wrap gap-1 text-[10px]">
+                  <span className="bg-yellow-50 text-yellow-700 px-1.5 rounded border border-yellow-100">{formatScore(node.score)}</span>
+                  <span className="bg-gray-50 text-gray-600 px-1.5 rounded border border-gray-200">👥 {(node.scored_by || 0).toLocaleString()}</span>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {node.genres.map((g) => (
+                    <span
+                      key={g}
+                      className={`px-1 text-[9px] rounded border ${
+                        sharedGenres.has(g) ? 'bg-green-50 text-green-700 border-green-200' : 'bg-gray-50 text-gray-500 border-gray-200'
+                      }`}
+                    >
+                      {g}
+                    </span>
+                  ))}
+                </div>
+                {comparison && (
+                  <div className="text-[10px] text-gray-500 flex flex-col gap-0.5 mt-auto pt-1 border-t border-gray-100">
+                    <span>{comparison.neighborCounts.get(node.id) ?? 0} related titles</span>
+                    {columns.length > 2 && (
+                      <span>Without it: {comparison.sharedWithout.get(node.id) ?? 0} shared</span>
+                    )}
+                  </div>
+                )}
+                <button onClick={() => onDropPick(node.id)} className="text-[10px] text-red-500 hover:bg-red-50 rounded py-1 font-bold">
+                  Drop pick
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Venn-style breakdown */}
+          {comparison && columns.length > 1 && (
+            <div className="flex flex-col gap-2">
+              <div className="flex justify-between items-center">
+                <span className="text-xs font-bold text-gray-600">Shared &amp; unique recommendations</span>
+                {!allShared && (
+                  <span className="text-[10px] text-red-500 bg-red-50 px-2 py-0.5 rounded">Nothing is tied to all {columns.length} picks</span>
+                )}
+              </div>
+              {comparison.regions.map((region) => (
+                <RegionRow
+                  key={region.members.join('|')}
+                  label={region.members.length === columns.length
+                    ? 'All picks'
+                    : region.members.length === 1
+                      ? `Only ${titleOf(region.members[0])}`
+                      : region.members.map(titleOf).join(' + ')}
+                  colors={region.members.map(colorOf)}
+                  count={region.nodes.length}
+                  nodes={region.nodes.slice(0, REGION_PREVIEW).map((id) => ({ id, title: titleOf(id) }))}
+                  focusOnNode={focusOnNode}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompareModal;
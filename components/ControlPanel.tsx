@@ -1,10 +1,31 @@
 import React, { useMemo, useState, useEffect, useRef } from 'react';
+import { STRENGTH_METHODS, StrengthMethod, StrengthScale, getStrengthLabel } from '../lib/edgeStrength';
+import { RANKING_MODES, RankingMode } from '../lib/recommend';
+import { READING_STATUSES, ReadingList, ReadingStatus } from '../lib/readingList';
+import { COLOR_MODES, ColorMode, Community } from '../lib/communities';
+import { BridgePath } from '../lib/paths';
+import { DEFAULT_EGO_HOP_CAP, MAX_EGO_DEPTH } from '../lib/egoNetwork';
+import { buildSearchIndex, searchTitles } from '../lib/search';
+import { QUERY_FIELDS, QueryError, checkQuery } from '../lib/query';
+import { useSavedQueries } from '../lib/useSavedQueries';
+import { GENRE_MODES, GenreFilter, GenreMode, countGenreModes } from '../lib/genreFilter';
+import { bayesianRating, computeRatingPrior, formatScore } from '../lib/popularity';
+
+const SUGGESTION_LIMIT = 12;
+// Stops for the minimum-raters slider
+const RATER_STEPS = [0, 100, 500, 1000, 5000, 10000, 50000, 100000];
+
+type RelatedSort = 'relevance' | 'rating';
+
+const formatCount = (n: number) => (n >= 1000 ? `${Number((n / 1000).toFixed(1))}k` : String(n));
 
 export type SearchableNode = {
   id: string;
   title: string;
   title_en?: string | null;
-  score: number;
+  score: number | null;
+  scored_by?: number | null;
+  aliases?: string[];
   image_url: string;
   genres: string[];
 };
@@ -13,36 +34,83 @@ type ControlPanelProps = {
   nodeList: SearchableNode[];
   selectedNodes: Set<string>;
   visibleNodeIds: Set<string>;
+  relevance: Map<string, number>;
+  rankingMode: RankingMode;
+  setRankingMode: (m: RankingMode) => void;
+  minSeedLinks: number;
+  setMinSeedLinks: (n: number) => void;
+  egoDepth: number;
+  setEgoDepth: (depth: number) => void;
+  hops: Map<string, number>;
   onToggleNode: (nodeId: string) => void;
+  dislikedNodes: Set<string>;
+  onToggleDislike: (nodeId: string) => void;
+  readingList: ReadingList;
+  onSetReadingStatus: (nodeId: string, status: ReadingStatus | null) => void;
   onClearSelection: () => void;
   minStrength: number;
   setMinStrength: (v: number) => void;
+  strengthMethod: StrengthMethod;
+  setStrengthMethod: (m: StrengthMethod) => void;
+  strengthScale: StrengthScale;
   minScore: number;
   setMinScore: (v: number) => void;
+  minRaters: number;
+  setMinRaters: (v: number) => void;
   visibleCount: number;
   focusOnNode: (nodeId: string) => void;
+  // Open a recommendation in the Detail Panel with its explanation
+  onInspectNode: (nodeId: string) => void;
+  // Open the side-by-side comparison of the picks
+  onCompare: () => void;
   
   allGenres: string[];
-  selectedGenres: Set<string>;
-  toggleGenreFilter: (genre: string) => void;
+  genreFilter: GenreFilter;
+  setGenreMode: (genre: string, mode: GenreMode | null) => void;
   clearGenreFilter: () => void;
 
   isAwardWinningOnly: boolean;
   toggleAwardWinningOnly: () => void;
+
+  query: string;
+  // Problem with the applied query (e.g. a hand-edited link); it is ignored until fixed
+  queryError: QueryError | null;
+  setQuery: (query: string) => void;
+
+  colorMode: ColorMode;
+  setColorMode: (mode: ColorMode) => void;
+  communities: Community[];
+  community: number | null;
+  setCommunity: (id: number | null) => void;
+
+  isBridgeMode: boolean;
+  toggleBridgeMode: () => void;
+  bridgeSource: string | null;
+  bridgeTarget: string | null;
+  setBridgeEndpoint: (end: 'source' | 'target', nodeId: string | null) => void;
+  bridgePaths: BridgePath[];
+  activeBridgePath: number;
+  setActiveBridgePath: (index: number) => void;
 };
 
 const getDisplayTitle = (node: SearchableNode) => {
   return node.title_en && node.title_en.trim() !== '' ? node.title_en : node.title;
 };
 
+const GENRE_MODE_STYLES: Record<GenreMode, string> = {
+  include: 'bg-blue-600 text-white border-blue-600',
+  require: 'bg-green-600 text-white border-green-600',
+  exclude: 'bg-red-500 text-white border-red-500',
+};
+
 const GenreFilterModal: React.FC<{
   isOpen: boolean;
   onClose: () => void;
   allGenres: string[];
-  selectedGenres: Set<string>;
-  toggleGenre: (g: string) => void;
+  genreFilter: GenreFilter;
+  setGenreMode: (genre: string, mode: GenreMode | null) => void;
   onClear: () => void;
-}> = ({ isOpen, onClose, allGenres, selectedGenres, toggleGenre, onClear }) => {
+}> = ({ isOpen, onClose, allGenres, genreFilter, setGenreMode, onClear }) => {
   if (!isOpen) return null;
 
   return (
@@ -57,19 +125,40 @@ const GenreFilterModal: React.FC<{
             ✕
           </button>
         </div>
+        <div className="px-5 pt-3 flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-gray-500">
+          {GENRE_MODES.map((mode) => (
+            <span key={mode.id} className="flex items-center gap-1">
+              <span className={`px-1 rounded border ${GENRE_MODE_STYLES[mode.id]}`}>{mode.label}</span>
+              {mode.description}
+            </span>
+          ))}
+        </div>
         <div className="p-5 overflow-y-auto custom-scrollbar">
-          <div className="grid grid-cols-2 gap-2">
-            {allGenres.map((genre) => (
-              <label key={genre} className="flex items-center gap-2 p-2 rounded hover:bg-gray-50 cursor-pointer border border-transparent hover:border-gray-200 transition-colors">
-                <input
-                  type="checkbox"
-                  checked={selectedGenres.has(genre)}
-                  onChange={() => toggleGenre(genre)}
-                  className="rounded text-blue-600 focus:ring-blue-500 w-4 h-4"
-                />
-                <span className="text-sm text-gray-700">{genre}</span>
-              </label>
-            ))}
+          <div className="flex flex-col gap-1">
+            {allGenres.map((genre) => {
+              const current = genreFilter.get(genre);
+              return (
+                <div key={genre} className="flex items-center gap-2 px-2 py-1 rounded hover:bg-gray-50">
+                  <span className={`text-sm flex-1 ${current === 'exclude' ? 'text-gray-400 line-through' : 'text-gray-700'}`}>{genre}</span>
+                  <div className="flex gap-0.5" role="radiogroup" aria-label={genre}>
+                    {GENRE_MODES.map((mode) => (
+                      <button
+                        key={mode.id}
+                        role="radio"
+                        aria-checked={current === mode.id}
+                        onClick={() => setGenreMode(genre, current === mode.id ? null : mode.id)}
+                        title={mode.description}
+                        className={`text-[10px] w-10 py-0.5 rounded border transition-colors ${
+                          current === mode.id ? GENRE_MODE_STYLES[mode.id] : 'bg-white text-gray-400 border-gray-200 hover:bg-gray-100'
+                        }`}
+                      >
+                        {mode.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
           </div>
         </div>
         <div className="p-4 border-t border-gray-100 bg-gray-50 flex justify-between items-center">
@@ -91,29 +180,332 @@ const GenreFilterModal: React.FC<{
   );
 };
 
+const ReadingListSection: React.FC<{
+  nodeList: SearchableNode[];
+  readingList: ReadingList;
+  onSetReadingStatus: (nodeId: string, status: ReadingStatus | null) => void;
+  focusOnNode: (nodeId: string) => void;
+}> = ({ nodeList, readingList, onSetReadingStatus, focusOnNode }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeStatus, setActiveStatus] = useState<ReadingStatus>('want');
+
+  const counts = useMemo(() => {
+    const c: Record<ReadingStatus, number> = { read: 0, reading: 0, want: 0, dropped: 0 };
+    readingList.forEach((entry) => { c[entry.status]++; });
+    return c;
+  }, [readingList]);
+
+  const entries = useMemo(() => {
+    return nodeList
+      .filter((n) => readingList.get(n.id)?.status === activeStatus)
+      .sort((a, b) => readingList.get(b.id)!.updatedAt - readingList.get(a.id)!.updatedAt);
+  }, [nodeList, readingList, activeStatus]);
+
+  if (readingList.size === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-2 pt-2 border-t border-gray-100">
+      <button onClick={() => setIsOpen(!isOpen)} className="flex justify-between items-center text-xs font-bold text-gray-600 select-none">
+        <span>Reading List ({readingList.size})</span>
+        <span className="text-gray-400">{isOpen ? '▼' : '▶'}</span>
+      </button>
+      {isOpen && (
+        <>
+          <div className="flex gap-1">
+            {READING_STATUSES.map((status) => (
+              <button
+                key={status.id}
+                onClick={() => setActiveStatus(status.id)}
+                className={`flex-1 text-[10px] py-1 rounded border transition-colors ${
+                  activeStatus === status.id ? 'bg-gray-800 text-white border-gray-800' : 'bg-white text-gray-500 border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                {status.icon} {counts[status.id]}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-col gap-1">
+            {entries.length === 0 && <span className="text-[10px] text-gray-400 text-center py-1">Nothing here yet</span>}
+            {entries.map((node) => {
+              const rating = readingList.get(node.id)?.rating;
+              return (
+                <div key={node.id} className="flex items-center gap-2 px-2 py-1 hover:bg-gray-50 rounded group">
+                  <span className="text-xs text-gray-600 truncate flex-1 cursor-pointer hover:text-blue-600" onClick={() => focusOnNode(node.id)}>{getDisplayTitle(node)}</span>
+                  {rating && <span className="text-[10px] text-gray-400 flex-shrink-0">{rating}/10</span>}
+                  <button onClick={() => onSetReadingStatus(node.id, null)} className="text-[10px] text-gray-300 hover:text-red-500 px-1 opacity-0 group-hover:opacity-100" title="Remove">✕</button>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const BridgeSection: React.FC<{
+  nodeList: SearchableNode[];
+  source: string | null;
+  target: string | null;
+  setEndpoint: (end: 'source' | 'target', nodeId: string | null) => void;
+  paths: BridgePath[];
+  activePath: number;
+  setActivePath: (index: number) => void;
+  onExit: () => void;
+  focusOnNode: (nodeId: string) => void;
+}> = ({ nodeList, source, target, setEndpoint, paths, activePath, setActivePath, onExit, focusOnNode }) => {
+  const byId = useMemo(() => new Map(nodeList.map((n) => [n.id, n])), [nodeList]);
+  const titleOf = (id: string) => {
+    const node = byId.get(id);
+    return node ? getDisplayTitle(node) : id;
+  };
+
+  const endpoint = (end: 'source' | 'target', id: string | null, label: string) => (
+    <div className="flex items-center gap-2">
+      <span className="w-8 text-[10px] text-gray-400 flex-shrink-0">{label}</span>
+      {id ? (
+        <div className="flex-1 min-w-0 flex items-center gap-1 px-2 py-1 bg-amber-50 border border-amber-200 rounded">
+          <span className="text-xs text-gray-700 font-bold truncate flex-1 cursor-pointer" onClick={() => focusOnNode(id)}>{titleOf(id)}</span>
+          <button onClick={() => setEndpoint(end, null)} className="text-[10px] text-gray-400 hover:text-red-500 px-1" title="Clear">✕</button>
+        </div>
+      ) : (
+        <span className="flex-1 text-[10px] text-gray-400 italic px-2 py-1 border border-dashed border-gray-200 rounded">Pick with the search above</span>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col gap-2 pb-3 border-b border-gray-100">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-bold text-amber-700">🌉 Bridge Explorer</span>
+        <button onClick={onExit} className="text-[10px] text-gray-400 hover:text-gray-600 px-2 py-0.5 rounded font-bold">Exit</button>
+      </div>
+      {endpoint('source', source, 'From')}
+      <div className="flex justify-center">
+        <button
+          onClick={() => { setEndpoint('source', target); setEndpoint('target', source); }}
+          disabled={!source && !target}
+          className="text-[10px] text-gray-400 hover:text-amber-600 disabled:opacity-30"
+          title="Swap"
+        >
+          ⇅
+        </button>
+      </div>
+      {endpoint('target', target, 'To')}
+
+      {source && target && paths.length === 0 && (
+        <span className="text-[10px] text-gray-400 text-center py-1">No connection under the current filters</span>
+      )}
+      {paths.map((path, i) => {
+        const stones = path.nodes.slice(1, -1);
+        return (
+          <div
+            key={path.nodes.join('>')}
+            onClick={() => setActivePath(i)}
+            className={`flex flex-col gap-1 p-2 rounded border cursor-pointer transition-colors ${
+              i === activePath ? 'bg-amber-50 border-amber-300' : 'bg-white border-gray-100 hover:bg-gray-50'
+            }`}
+          >
+            <div className="flex justify-between text-[10px] text-gray-500">
+              <span className="font-bold">{i === 0 ? 'Strongest path' : `Alternative ${i}`}</span>
+              <span>{path.edges.length} {path.edges.length === 1 ? 'hop' : 'hops'} · weakest link {path.minStrength}</span>
+            </div>
+            {stones.length === 0 ? (
+              <span className="text-[10px] text-gray-400">Directly connected</span>
+            ) : (
+              <div className="flex flex-wrap items-center gap-1">
+                <span className="text-[10px] text-gray-400">Stepping stones:</span>
+                {stones.map((id) => (
+                  <button
+                    key={id}
+                    onClick={(e) => { e.stopPropagation(); setActivePath(i); focusOnNode(id); }}
+                    className="text-[10px] bg-white border border-amber-200 text-gray-700 px-1.5 py-0.5 rounded hover:text-amber-700 max-w-full truncate"
+                  >
+                    {titleOf(id)}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const QUERY_EXAMPLE = 'genre:Romance AND NOT genre:Drama score>=7.5 scored_by>10000 degree>20';
+
+// Echoes the draft with the offending span marked
+const QueryErrorMessage: React.FC<{ text: string; error: QueryError }> = ({ text, error }) => {
+  const end = Math.max(error.end, error.start + 1);
+  return (
+    <div className="flex flex-col gap-0.5 text-[10px] text-red-600" role="alert">
+      <span className="font-mono text-gray-500 break-all">
+        {text.slice(0, error.start)}
+        <span className="bg-red-100 text-red-600 underline decoration-wavy">{text.slice(error.start, end) || ' '}</span>
+        {text.slice(end)}
+      </span>
+      <span>{error.message}</span>
+    </div>
+  );
+};
+
+const QuerySection: React.FC<{
+  query: string;
+  queryError: QueryError | null;
+  setQuery: (query: string) => void;
+}> = ({ query, queryError, setQuery }) => {
+  const [draft, setDraft] = useState(query);
+  const [saveName, setSaveName] = useState<string | null>(null);
+  const { savedQueries, saveQuery, deleteQuery } = useSavedQueries();
+
+  const draftError = useMemo(() => checkQuery(draft).error, [draft]);
+  const isDirty = draft.trim() !== query;
+  const apply = () => { if (!draftError) setQuery(draft.trim()); };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') apply();
+    else if (e.key === 'Escape') setDraft(query);
+  };
+
+  const confirmSave = () => {
+    const name = (saveName || '').trim();
+    if (name && query) saveQuery(name, query);
+    setSaveName(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <div className="flex justify-between items-center text-xs font-bold text-gray-600 select-none">
+        <span title={`Fields: ${QUERY_FIELDS.join(', ')}. Combine with AND, OR, NOT and parentheses.`}>Query ⓘ</span>
+        {query && !queryError && <span className="text-indigo-600 bg-indigo-50 px-1.5 rounded text-[10px]">active</span>}
+      </div>
+      <div className="flex gap-1">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={QUERY_EXAMPLE}
+          spellCheck={false}
+          aria-invalid={!!draftError}
+          className={`flex-1 min-w-0 px-2 py-1.5 border rounded text-[11px] font-mono text-gray-700 outline-none focus:ring-2 ${
+            draftError ? 'border-red-300 focus:ring-red-200' : 'border-gray-300 focus:ring-indigo-200'
+          }`}
+        />
+        {isDirty ? (
+          <button onClick={apply} disabled={!!draftError} className="text-[10px] font-bold px-2 rounded bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-40">
+            Apply
+          </button>
+        ) : query && (
+          <button onClick={() => { setDraft(''); setQuery(''); }} className="text-[10px] font-bold px-2 rounded text-gray-400 hover:text-red-500 hover:bg-red-50">
+            Clear
+          </button>
+        )}
+      </div>
+      {draftError && <QueryErrorMessage text={draft} error={draftError} />}
+      {!isDirty && !draftError && queryError && <QueryErrorMessage text={query} error={queryError} />}
+
+      {(savedQueries.length > 0 || (query && !queryError)) && (
+        <div className="flex flex-wrap items-center gap-1">
+          {savedQueries.map((saved) => (
+            <span
+              key={saved.name}
+              className={`group flex items-center text-[10px] rounded border ${
+                saved.query === query ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-gray-200 text-gray-600'
+              }`}
+            >
+              <button onClick={() => { setDraft(saved.query); setQuery(saved.query); }} title={saved.query} className="pl-1.5 pr-1 py-0.5 hover:text-indigo-600">
+                {saved.name}
+              </button>
+              <button onClick={() => deleteQuery(saved.name)} className="pr-1 text-gray-300 hover:text-red-500 opacity-0 group-hover:opacity-100" title="Delete">✕</button>
+            </span>
+          ))}
+          {query && !queryError && (saveName === null ? (
+            <button onClick={() => setSaveName('')} className="text-[10px] text-gray-400 hover:text-indigo-600 px-1">+ Save</button>
+          ) : (
+            <input
+              autoFocus
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') confirmSave(); else if (e.key === 'Escape') setSaveName(null); }}
+              onBlur={confirmSave}
+              placeholder="Name"
+              className="w-24 px-1.5 py-0.5 border border-indigo-200 rounded text-[10px] outline-none"
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
 const ControlPanel: React.FC<ControlPanelProps> = ({
   nodeList,
   selectedNodes,
   visibleNodeIds,
+  relevance,
+  rankingMode,
+  setRankingMode,
+  minSeedLinks,
+  setMinSeedLinks,
+  egoDepth,
+  setEgoDepth,
+  hops,
   onToggleNode,
+  dislikedNodes,
+  onToggleDislike,
+  readingList,
+  onSetReadingStatus,
   onClearSelection,
   minStrength,
   setMinStrength,
+  strengthMethod,
+  setStrengthMethod,
+  strengthScale,
   minScore,
   setMinScore,
+  minRaters,
+  setMinRaters,
   visibleCount,
   focusOnNode,
+  onInspectNode,
+  onCompare,
   allGenres,
-  selectedGenres,
-  toggleGenreFilter,
+  genreFilter,
+  setGenreMode,
   clearGenreFilter,
   isAwardWinningOnly,
-  toggleAwardWinningOnly
+  toggleAwardWinningOnly,
+  query,
+  queryError,
+  setQuery,
+  colorMode,
+  setColorMode,
+  communities,
+  community,
+  setCommunity,
+  isBridgeMode,
+  toggleBridgeMode,
+  bridgeSource,
+  bridgeTarget,
+  setBridgeEndpoint,
+  bridgePaths,
+  activeBridgePath,
+  setActiveBridgePath,
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [showSuggestions, setShowSuggestions] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const suggestionListRef = useRef<HTMLUListElement>(null);
   const [isGenreModalOpen, setIsGenreModalOpen] = useState(false);
   const [isPanelOpen, setIsPanelOpen] = useState(true);
+  const [hideRead, setHideRead] = useState(false);
+  const [relatedSort, setRelatedSort] = useState<RelatedSort>('relevance');
+  const isQueryActive = !!query && !queryError;
+  const genreCounts = countGenreModes(genreFilter);
+  // Links may carry any count; show the nearest stop at or below it
+  const raterStep = RATER_STEPS.reduce((best, step, i) => (step <= minRaters ? i : best), 0);
 
   useEffect(() => {
     if (typeof window !== 'undefined' && window.innerWidth < 768) {
@@ -158,32 +550,46 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     document.body.style.cursor = 'grabbing';
   };
 
+  const searchIndex = useMemo(() => buildSearchIndex(nodeList), [nodeList]);
+
   const suggestions = useMemo(() => {
     if (!searchQuery) return [];
-    const lower = searchQuery.toLowerCase();
-    return nodeList
-      .filter((n) => {
-        const t1 = n.title.toLowerCase();
-        const t2 = n.title_en?.toLowerCase() || '';
-        return t1.includes(lower) || t2.includes(lower);
-      })
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 8);
-  }, [searchQuery, nodeList]);
+    return searchTitles(searchIndex, searchQuery, SUGGESTION_LIMIT);
+  }, [searchQuery, searchIndex]);
+
+  // Keep the keyboard-highlighted suggestion in view
+  useEffect(() => {
+    const item = suggestionListRef.current?.children[highlightedIndex] as HTMLElement | undefined;
+    item?.scrollIntoView({ block: 'nearest' });
+  }, [highlightedIndex]);
 
   const selectedNodeObjects = useMemo(() => {
     return nodeList.filter((n) => selectedNodes.has(n.id));
   }, [nodeList, selectedNodes]);
 
+  const dislikedNodeObjects = useMemo(() => {
+    return nodeList.filter((n) => dislikedNodes.has(n.id));
+  }, [nodeList, dislikedNodes]);
+
+  const ratingPrior = useMemo(() => computeRatingPrior(nodeList), [nodeList]);
+
   const relatedNodeObjects = useMemo(() => {
     if (selectedNodes.size === 0) return [];
+    const byRelevance = (a: SearchableNode, b: SearchableNode) => (relevance.get(b.id) || 0) - (relevance.get(a.id) || 0);
+    const byRating = (a: SearchableNode, b: SearchableNode) => bayesianRating(b, ratingPrior) - bayesianRating(a, ratingPrior);
     return nodeList
-      .filter((n) => visibleNodeIds.has(n.id) && !selectedNodes.has(n.id))
-      .sort((a, b) => b.score - a.score);
-  }, [nodeList, visibleNodeIds, selectedNodes]);
+      .filter((n) => visibleNodeIds.has(n.id) && !selectedNodes.has(n.id) && !dislikedNodes.has(n.id))
+      .filter((n) => !hideRead || readingList.get(n.id)?.status !== 'read')
+      .sort((a, b) => relatedSort === 'rating'
+        ? byRating(a, b) || byRelevance(a, b)
+        : byRelevance(a, b) || byRating(a, b));
+  }, [nodeList, visibleNodeIds, selectedNodes, dislikedNodes, relevance, hideRead, readingList, relatedSort, ratingPrior]);
 
   const handleSelectSuggestion = (node: SearchableNode) => {
-    if (!selectedNodes.has(node.id)) {
+    if (isBridgeMode) {
+      // Fill the start first, then keep replacing the destination
+      setBridgeEndpoint(bridgeSource && bridgeSource !== node.id ? 'target' : 'source', node.id);
+    } else if (!selectedNodes.has(node.id)) {
       onToggleNode(node.id);
     }
     focusOnNode(node.id);
@@ -191,14 +597,32 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     setShowSuggestions(false);
   };
 
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setShowSuggestions(false);
+      return;
+    }
+    if (suggestions.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setShowSuggestions(true);
+      setHighlightedIndex((highlightedIndex + step + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' && showSuggestions) {
+      e.preventDefault();
+      const target = suggestions[Math.min(highlightedIndex, suggestions.length - 1)];
+      if (target) handleSelectSuggestion(target.node);
+    }
+  };
+
   return (
     <>
       <GenreFilterModal 
         isOpen={isGenreModalOpen} 
         onClose={() => setIsGenreModalOpen(false)}
         allGenres={allGenres}
-        selectedGenres={selectedGenres}
-        toggleGenre={toggleGenreFilter}
+        genreFilter={genreFilter}
+        setGenreMode={setGenreMode}
         onClear={clearGenreFilter}
       />
 
@@ -227,24 +651,42 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
               <span className="text-gray-400">🔍</span>
               <input
                 type="text"
-                placeholder="Search manga..."
+                placeholder={isBridgeMode ? (bridgeSource ? 'Pick the destination...' : 'Pick the start...') : 'Search manga...'}
                 className="w-full px-3 py-3 rounded-lg outline-none text-sm text-gray-800 bg-transparent"
                 value={searchQuery}
-                onChange={(e) => { setSearchQuery(e.target.value); setShowSuggestions(true); }}
+                onChange={(e) => { setSearchQuery(e.target.value); setShowSuggestions(true); setHighlightedIndex(0); }}
                 onFocus={() => setShowSuggestions(true)}
+                onKeyDown={handleSearchKeyDown}
+                role="combobox"
+                aria-expanded={showSuggestions && suggestions.length > 0}
+                aria-controls="search-suggestions"
+                aria-activedescendant={showSuggestions && suggestions[highlightedIndex] ? `suggestion-${suggestions[highlightedIndex].node.id}` : undefined}
               />
+              <button
+                onClick={toggleBridgeMode}
+                className={`flex-shrink-0 text-sm px-1.5 py-1 rounded transition-colors ${isBridgeMode ? 'bg-amber-100' : 'opacity-50 hover:opacity-100'}`}
+                title={isBridgeMode ? 'Exit Bridge Explorer' : 'Bridge Explorer: how are two titles connected?'}
+              >
+                🌉
+              </button>
             </div>
             {/* Suggestions */}
             {showSuggestions && searchQuery && suggestions.length > 0 && (
-              <ul className="absolute top-full left-0 right-0 mt-1 bg-white rounded-lg shadow-xl border border-gray-100 max-h-60 overflow-y-auto divide-y divide-gray-50 z-30">
-                {suggestions.map((node) => {
+              <ul id="search-suggestions" role="listbox" ref={suggestionListRef} className="absolute top-full left-0 right-0 mt-1 bg-white rounded-lg shadow-xl border border-gray-100 max-h-60 overflow-y-auto divide-y divide-gray-50 z-30">
+                {suggestions.map(({ node, matched }, index) => {
                   const mainTitle = getDisplayTitle(node);
-                  const subTitle = mainTitle !== node.title ? node.title : null;
+                  // Show the alias when that is what matched, otherwise the original title
+                  const isAlias = matched !== node.title && matched !== node.title_en;
+                  const subTitle = isAlias ? `aka ${matched}` : mainTitle !== node.title ? node.title : null;
                   return (
                     <li
                       key={node.id}
-                      className="px-4 py-2 hover:bg-blue-50 cursor-pointer text-sm text-gray-700 transition-colors flex items-center gap-3"
+                      id={`suggestion-${node.id}`}
+                      role="option"
+                      aria-selected={index === highlightedIndex}
+                      className={`px-4 py-2 hover:bg-blue-50 cursor-pointer text-sm text-gray-700 transition-colors flex items-center gap-3 ${index === highlightedIndex ? 'bg-blue-50' : ''}`}
                       onClick={() => handleSelectSuggestion(node)}
+                      onMouseEnter={() => setHighlightedIndex(index)}
                     >
                       <div className="flex-shrink-0 w-8 h-10 bg-gray-200 rounded overflow-hidden">
                         <img src={node.image_url} alt="" className="w-full h-full object-cover" loading="lazy" />
@@ -254,7 +696,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                           <span className="font-bold text-gray-900 truncate">{mainTitle}</span>
                           {subTitle && <span className="text-[10px] text-gray-400 truncate">{subTitle}</span>}
                         </div>
-                        <div className="text-xs text-gray-400 flex-shrink-0 ml-2 mt-0.5">★{node.score}</div>
+                        <div className="text-xs text-gray-400 flex-shrink-0 ml-2 mt-0.5">{formatScore(node.score)}</div>
                       </div>
                     </li>
                   );
@@ -285,61 +727,200 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
           >
             <div className="p-4 flex flex-col gap-5 overflow-y-auto custom-scrollbar" onMouseDown={(e) => e.stopPropagation()}>
               
+              {isBridgeMode && (
+                <BridgeSection
+                  nodeList={nodeList}
+                  source={bridgeSource}
+                  target={bridgeTarget}
+                  setEndpoint={setBridgeEndpoint}
+                  paths={bridgePaths}
+                  activePath={activeBridgePath}
+                  setActivePath={setActiveBridgePath}
+                  onExit={toggleBridgeMode}
+                  focusOnNode={focusOnNode}
+                />
+              )}
+
               {/* --- Filters --- */}
               <div className="flex flex-col gap-4">
-                <div className="flex items-center justify-between bg-yellow-50 border border-yellow-200 p-2 rounded-lg cursor-pointer hover:bg-yellow-100 transition-colors"
-                     onClick={toggleAwardWinningOnly}>
-                  <div className="flex items-center gap-2">
-                    <span className="text-lg">🏆</span>
-                    <span className="text-xs font-bold text-yellow-800">Award Winning Only</span>
+                <QuerySection key={query} query={query} queryError={queryError} setQuery={setQuery} />
+
+                <div className={`flex flex-col gap-4 ${isQueryActive ? 'opacity-50 pointer-events-none' : ''}`} title={isQueryActive ? 'Replaced by the active query' : undefined}>
+                  <div className="flex items-center justify-between bg-yellow-50 border border-yellow-200 p-2 rounded-lg cursor-pointer hover:bg-yellow-100 transition-colors"
+                       onClick={toggleAwardWinningOnly}>
+                    <div className="flex items-center gap-2">
+                      <span className="text-lg">🏆</span>
+                      <span className="text-xs font-bold text-yellow-800">Award Winning Only</span>
+                    </div>
+                    <div className={`w-8 h-4 rounded-full p-0.5 transition-colors ${isAwardWinningOnly ? 'bg-yellow-500' : 'bg-gray-300'}`}>
+                      <div className={`w-3 h-3 bg-white rounded-full shadow-sm transform transition-transform ${isAwardWinningOnly ? 'translate-x-4' : 'translate-x-0'}`} />
+                    </div>
                   </div>
-                  <div className={`w-8 h-4 rounded-full p-0.5 transition-colors ${isAwardWinningOnly ? 'bg-yellow-500' : 'bg-gray-300'}`}>
-                    <div className={`w-3 h-3 bg-white rounded-full shadow-sm transform transition-transform ${isAwardWinningOnly ? 'translate-x-4' : 'translate-x-0'}`} />
+
+                  <div>
+                    <div className="flex justify-between items-center text-xs font-bold text-gray-600 mb-2 select-none">
+                      <span>Genre Filter</span>
+                      <div className="flex gap-1 text-[10px]">
+                        {genreCounts.include > 0 && <span className="text-blue-600 bg-blue-50 px-1.5 rounded">{genreCounts.include} any</span>}
+                        {genreCounts.require > 0 && <span className="text-green-600 bg-green-50 px-1.5 rounded">{genreCounts.require} must</span>}
+                        {genreCounts.exclude > 0 && <span className="text-red-500 bg-red-50 px-1.5 rounded">{genreCounts.exclude} not</span>}
+                      </div>
+                    </div>
+                    <button onClick={() => setIsGenreModalOpen(true)} className="w-full py-2 px-3 bg-white border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 flex justify-between items-center">
+                      <span>Select Genres...</span>
+                      <span className="text-gray-400">▶</span>
+                    </button>
                   </div>
                 </div>
 
-                <div className={isAwardWinningOnly ? 'opacity-50 pointer-events-none' : ''}>
+                <div>
                   <div className="flex justify-between items-center text-xs font-bold text-gray-600 mb-2 select-none">
-                    <span>Genre Filter</span>
-                    {selectedGenres.size > 0 && <span className="text-green-600 bg-green-50 px-1.5 rounded">{selectedGenres.size} selected</span>}
+                    <span>Color by</span>
+                    <div className="flex gap-1">
+                      {COLOR_MODES.map((mode) => (
+                        <button
+                          key={mode.id}
+                          onClick={() => setColorMode(mode.id)}
+                          className={`text-[10px] px-2 py-0.5 rounded border transition-colors ${
+                            colorMode === mode.id ? 'bg-gray-800 text-white border-gray-800' : 'bg-white text-gray-500 border-gray-200 hover:bg-gray-50'
+                          }`}
+                        >
+                          {mode.label}
+                        </button>
+                      ))}
+                    </div>
                   </div>
-                  <button onClick={() => setIsGenreModalOpen(true)} disabled={isAwardWinningOnly} className="w-full py-2 px-3 bg-white border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 flex justify-between items-center disabled:bg-gray-100">
-                    <span>Select Genres...</span>
-                    <span className="text-gray-400">▶</span>
-                  </button>
+                  {communities.length > 0 && (
+                    <div className="flex items-center gap-2">
+                      <span
+                        className="w-3 h-3 rounded-full flex-shrink-0 border border-gray-200"
+                        style={{ backgroundColor: community !== null ? communities.find((c) => c.id === community)?.color : 'transparent' }}
+                      />
+                      <select
+                        value={community ?? ''}
+                        onChange={(e) => setCommunity(e.target.value === '' ? null : Number(e.target.value))}
+                        className="flex-1 min-w-0 bg-white border border-gray-200 rounded px-1.5 py-1 text-xs text-gray-600 cursor-pointer"
+                      >
+                        <option value="">All communities ({communities.length})</option>
+                        {communities.map((c) => (
+                          <option key={c.id} value={c.id}>
+                            {c.label} · {c.size}{c.topGenres.length > 0 && c.topTitles[0] ? ` (${c.topTitles[0]})` : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
                 </div>
 
                 <div>
                   <div className="flex justify-between text-xs font-bold text-gray-600 mb-2 select-none">
                     <span>Relevance Strictness</span>
                     <span className="text-blue-600 bg-blue-50 px-2 py-0.5 rounded border border-blue-100 text-[10px]">
-                      {minStrength < 0.15 ? 'Broad' : minStrength < 0.30 ? 'Normal' : 'Strict'}
+                      {getStrengthLabel(minStrength, strengthScale)}
                     </span>
                   </div>
-                  <input type="range" min="0" max="0.5" step="0.01" value={minStrength} onChange={(e) => setMinStrength(Number(e.target.value))} className="w-full accent-blue-600 cursor-pointer h-1.5 bg-gray-200 rounded-lg appearance-none" />
+                  <input type="range" min="0" max={strengthScale.max} step={strengthScale.step} value={Math.min(minStrength, strengthScale.max)} onChange={(e) => setMinStrength(Number(e.target.value))} className="w-full accent-blue-600 cursor-pointer h-1.5 bg-gray-200 rounded-lg appearance-none" />
+                  <div className="flex justify-between items-center mt-2 text-[10px] text-gray-400 select-none">
+                    <span>Weighting</span>
+                    <select
+                      value={strengthMethod}
+                      onChange={(e) => setStrengthMethod(e.target.value as StrengthMethod)}
+                      title={STRENGTH_METHODS.find((m) => m.id === strengthMethod)?.description}
+                      className="bg-white border border-gray-200 rounded px-1.5 py-0.5 text-[10px] text-gray-600 cursor-pointer"
+                    >
+                      {STRENGTH_METHODS.map((m) => (
+                        <option key={m.id} value={m.id}>{m.label}</option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
 
-                <div>
+                <div className={isQueryActive ? 'opacity-50 pointer-events-none' : ''}>
                   <div className="flex justify-between text-xs font-bold text-gray-600 mb-2 select-none">
                     <span>Minimum Rating</span>
                     <span className="text-yellow-600 bg-yellow-50 px-2 py-0.5 rounded border border-yellow-100">★ {minScore.toFixed(1)}+</span>
                   </div>
                   <input type="range" min="1" max="9.5" step="0.5" value={minScore} onChange={(e) => setMinScore(Number(e.target.value))} className="w-full accent-yellow-500 cursor-pointer h-1.5 bg-gray-200 rounded-lg appearance-none" />
                 </div>
+
+                <div className={isQueryActive ? 'opacity-50 pointer-events-none' : ''}>
+                  <div className="flex justify-between text-xs font-bold text-gray-600 mb-2 select-none">
+                    <span>Minimum Raters</span>
+                    <span className="text-gray-600 bg-gray-50 px-2 py-0.5 rounded border border-gray-200">👥 {formatCount(minRaters)}+</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max={RATER_STEPS.length - 1}
+                    step="1"
+                    value={raterStep}
+                    onChange={(e) => setMinRaters(RATER_STEPS[Number(e.target.value)])}
+                    className="w-full accent-gray-600 cursor-pointer h-1.5 bg-gray-200 rounded-lg appearance-none"
+                  />
+                </div>
               </div>
 
+              {/* --- Ranking --- */}
+              {selectedNodes.size > 0 && (
+                <div className="flex flex-col gap-2 pt-2 border-t border-gray-100">
+                  <div className="flex justify-between items-center text-xs font-bold text-gray-600 select-none">
+                    <span>Ranking</span>
+                    <select
+                      value={rankingMode}
+                      onChange={(e) => setRankingMode(e.target.value as RankingMode)}
+                      title={RANKING_MODES.find((m) => m.id === rankingMode)?.description}
+                      className="bg-white border border-gray-200 rounded px-1.5 py-0.5 text-[10px] text-gray-600 font-normal cursor-pointer"
+                    >
+                      {RANKING_MODES.map((m) => (
+                        <option key={m.id} value={m.id}>{m.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {selectedNodes.size > 1 && (
+                    <div>
+                      <div className="flex justify-between text-[10px] text-gray-500 mb-1 select-none">
+                        <span>Must connect to at least</span>
+                        <span className="font-bold text-blue-600">
+                          {Math.min(minSeedLinks, selectedNodes.size)} of {selectedNodes.size} picks
+                        </span>
+                      </div>
+                      <input type="range" min="1" max={selectedNodes.size} step="1" value={Math.min(minSeedLinks, selectedNodes.size)} onChange={(e) => setMinSeedLinks(Number(e.target.value))} className="w-full accent-blue-600 cursor-pointer h-1.5 bg-gray-200 rounded-lg appearance-none" />
+                    </div>
+                  )}
+                  <div className="flex justify-between items-center text-[10px] text-gray-500 select-none">
+                    <span title={`Friends of friends: up to ${DEFAULT_EGO_HOP_CAP} more titles per extra hop`}>Depth</span>
+                    <div className="flex gap-1">
+                      {Array.from({ length: MAX_EGO_DEPTH }, (_, i) => i + 1).map((depth) => (
+                        <button
+                          key={depth}
+                          onClick={() => setEgoDepth(depth)}
+                          className={`px-2 py-0.5 rounded border transition-colors ${
+                            egoDepth === depth ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-500 border-gray-200 hover:bg-gray-50'
+                          }`}
+                        >
+                          {depth} {depth === 1 ? 'hop' : 'hops'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )}
+
               <div className="pt-2 border-t border-gray-100 text-xs text-center text-gray-400 select-none">
                 Showing: <span className="font-bold text-gray-700 text-sm">{visibleCount}</span> manga
               </div>
 
               {/* --- Lists --- */}
-              {(selectedNodes.size > 0 || relatedNodeObjects.length > 0) && (
+              {(selectedNodes.size > 0 || dislikedNodes.size > 0 || relatedNodeObjects.length > 0) && (
                 <div className="flex flex-col gap-3">
                   {/* Selected List */}
                   {selectedNodes.size > 0 && (
                     <div className="flex flex-col gap-1">
                       <div className="flex justify-between items-end mb-1">
                         <span className="text-xs font-bold text-blue-600">Selected ({selectedNodes.size})</span>
+                        {selectedNodes.size > 1 && (
+                          <button onClick={onCompare} className="ml-auto text-[10px] text-blue-600 hover:bg-blue-50 px-2 py-0.5 rounded font-bold transition">Compare</button>
+                        )}
                         <button onClick={onClearSelection} className="text-[10px] text-red-500 hover:bg-red-50 px-2 py-0.5 rounded font-bold transition">Clear All</button>
                       </div>
                       <div className="flex flex-col gap-1">
@@ -353,10 +934,42 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                     </div>
                   )}
 
+                  {/* Disliked List */}
+                  {dislikedNodeObjects.length > 0 && (
+                    <div className="flex flex-col gap-1">
+                      <span className="text-xs font-bold text-red-500 mb-1">Not for me ({dislikedNodeObjects.length})</span>
+                      <div className="flex flex-col gap-1">
+                        {dislikedNodeObjects.map((node) => (
+                          <div key={node.id} className="flex items-center gap-2 px-2 py-1.5 bg-red-50/50 rounded border border-red-100">
+                            <span className="text-xs text-gray-500 truncate flex-1 cursor-pointer line-through" onClick={() => focusOnNode(node.id)}>{getDisplayTitle(node)}</span>
+                            <button onClick={() => onToggleDislike(node.id)} className="text-[10px] text-red-400 hover:text-red-600 px-1 font-bold" title="Undo">✕</button>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Related List */}
                   {relatedNodeObjects.length > 0 && (
                     <div className="flex flex-col gap-1 pt-2 border-t border-dashed border-gray-200">
-                      <span className="text-xs font-bold text-gray-500 mb-1">Related ({relatedNodeObjects.length})</span>
+                      <div className="flex justify-between items-center mb-1">
+                        <span className="text-xs font-bold text-gray-500">Related ({relatedNodeObjects.length})</span>
+                        <select
+                          value={relatedSort}
+                          onChange={(e) => setRelatedSort(e.target.value as RelatedSort)}
+                          title="Rating is weighted by the number of raters"
+                          className="ml-auto mr-2 bg-white border border-gray-200 rounded px-1 py-0.5 text-[10px] text-gray-500 cursor-pointer"
+                        >
+                          <option value="relevance">By relevance</option>
+                          <option value="rating">By rating</option>
+                        </select>
+                        {readingList.size > 0 && (
+                          <label className="flex items-center gap-1 text-[10px] text-gray-400 cursor-pointer select-none">
+                            <input type="checkbox" checked={hideRead} onChange={() => setHideRead(!hideRead)} className="accent-green-600 w-3 h-3" />
+                            Hide read
+                          </label>
+                        )}
+                      </div>
                       <div className="flex flex-col gap-1">
                         {relatedNodeObjects.map((node) => (
                           <label key={node.id} className="flex items-center gap-3 px-2 py-1.5 hover:bg-gray-50 rounded cursor-pointer group transition-colors">
@@ -365,9 +978,34 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                               <img src={node.image_url} alt="" className="w-full h-full object-cover" loading="lazy" />
                             </div>
                             <div className="flex flex-col overflow-hidden flex-1">
-                              <span className="text-xs text-gray-600 truncate group-hover:text-blue-600 transition font-medium" onClick={(e) => { e.preventDefault(); focusOnNode(node.id); }}>{getDisplayTitle(node)}</span>
-                              <span className="text-[10px] text-gray-400">★{node.score}</span>
+                              <span className="text-xs text-gray-600 truncate group-hover:text-blue-600 transition font-medium" onClick={(e) => { e.preventDefault(); focusOnNode(node.id); onInspectNode(node.id); }} title="Show why it's recommended">{getDisplayTitle(node)}</span>
+                              <div className="flex items-center gap-2">
+                                <span
+                                  className="text-[10px] text-gray-400"
+                                  title={`Weighted ${bayesianRating(node, ratingPrior).toFixed(2)} from ${formatCount(node.scored_by || 0)} raters`}
+                                >
+                                  {formatScore(node.score)}
+                                </span>
+                                {(hops.get(node.id) ?? 1) > 1 && (
+                                  <span className="text-[10px] text-gray-400 bg-gray-100 px-1 rounded" title="Reached through another recommendation">{hops.get(node.id)} hops</span>
+                                )}
+                                {relevance.has(node.id) && (
+                                  <div className="flex items-center gap-1 flex-1 min-w-0" title="Relevance to your picks">
+                                    <div className="h-1 flex-1 max-w-[60px] bg-gray-100 rounded-full overflow-hidden">
+                                      <div className="h-full bg-blue-400" style={{ width: `${Math.round((relevance.get(node.id) || 0) * 100)}%` }} />
+                                    </div>
+                                    <span className="text-[10px] text-blue-500">{Math.round((relevance.get(node.id) || 0) * 100)}%</span>
+                                  </div>
+                                )}
+                              </div>
                             </div>
+                            <button
+                              onClick={(e) => { e.preventDefault(); onToggleDislike(node.id); }}
+                              className="flex-shrink-0 text-xs opacity-0 group-hover:opacity-60 hover:!opacity-100 px-1 transition-opacity"
+                              title="Not for me"
+                            >
+                              👎
+                            </button>
                           </label>
                         ))}
                       </div>
@@ -375,6 +1013,14 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                   )}
                 </div>
               )}
+
+              {/* --- Reading List --- */}
+              <ReadingListSection
+                nodeList={nodeList}
+                readingList={readingList}
+                onSetReadingStatus={onSetReadingStatus}
+                focusOnNode={focusOnNode}
+              />
             </div>
           </div>
         </div>
@@ -1,13 +1,17 @@
 import Image from 'next/image';
 import React from 'react';
+import { READING_STATUSES, ReadingEntry, ReadingStatus } from '../lib/readingList';
+import { Explanation } from '../lib/explain';
+import { formatScore } from '../lib/popularity';
 
 export type MangaNode = {
   id: string;
   title: string;
   title_en?: string | null;
   image_url: string;
-  score: number;
-  scored_by: number;
+  // null for unrated titles
+  score: number | null;
+  scored_by: number | null;
   genres: string[];
   label?: string;
   author?: string;
@@ -17,9 +21,98 @@ export type MangaNode = {
 type DetailPanelProps = {
   selected?: MangaNode | null;
   onReset: () => void;
+  isDisliked?: boolean;
+  onToggleDislike?: (node: MangaNode) => void;
+  readingEntry?: ReadingEntry | null;
+  onSetReadingStatus?: (nodeId: string, status: ReadingStatus | null) => void;
+  onSetReadingRating?: (nodeId: string, rating: number | null) => void;
+  // Set when `selected` is a recommendation rather than a pick
+  explanation?: Explanation | null;
+  nodeIndex?: Map<string, MangaNode>;
+  highlightedEdges?: Set<string>;
+  onHighlightEdges?: (edges: Set<string>) => void;
+  onAddToPicks?: (node: MangaNode) => void;
 };
 
-const DetailPanel: React.FC<DetailPanelProps> = ({ selected, onReset }) => {
+const RATING_OPTIONS = [10, 9, 8, 7, 6, 5, 4, 3, 2, 1];
+
+const nodeTitle = (node: MangaNode | undefined, id: string) =>
+  node ? (node.title_en && node.title_en.trim() !== '' ? node.title_en : node.title) : id;
+
+const WhyRecommended: React.FC<{
+  explanation: Explanation;
+  nodeIndex: Map<string, MangaNode>;
+  highlightedEdges: Set<string>;
+  onHighlightEdges: (edges: Set<string>) => void;
+}> = ({ explanation, nodeIndex, highlightedEdges, onHighlightEdges }) => {
+  const { contributions, unconnectedSeeds } = explanation;
+  const allEdges = contributions.map((c) => c.edge);
+  const isAllHighlighted = allEdges.length > 0 && allEdges.every((e) => highlightedEdges.has(e));
+
+  // Clicking the only highlighted edge again clears it
+  const toggleEdge = (edge: string) =>
+    onHighlightEdges(highlightedEdges.size === 1 && highlightedEdges.has(edge) ? new Set() : new Set([edge]));
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <div className="flex justify-between items-center">
+        <p className="text-[10px] md:text-xs font-bold text-gray-400 uppercase tracking-wider">Why recommended</p>
+        {contributions.length > 1 && (
+          <button
+            onClick={() => onHighlightEdges(isAllHighlighted ? new Set() : new Set(allEdges))}
+            className="text-[10px] text-violet-600 hover:bg-violet-50 px-1.5 py-0.5 rounded font-bold"
+          >
+            {isAllHighlighted ? 'Clear' : 'Highlight all'}
+          </button>
+        )}
+      </div>
+      {contributions.length === 0 && (
+        <p className="text-[10px] md:text-xs text-gray-400">Not directly tied to your picks; reached through other recommendations.</p>
+      )}
+      {contributions.map((c) => (
+        <button
+          key={c.seed}
+          onClick={() => toggleEdge(c.edge)}
+          className={`flex flex-col gap-0.5 text-left p-2 rounded border transition-colors ${
+            highlightedEdges.has(c.edge) ? 'bg-violet-50 border-violet-300' : 'bg-white border-gray-100 hover:bg-gray-50'
+          }`}
+        >
+          <span className="text-xs font-bold text-gray-700 truncate w-full">{nodeTitle(nodeIndex.get(c.seed), c.seed)}</span>
+          <span className="text-[10px] text-gray-500">
+            Read together by {c.strength} · #{c.rank} of {c.neighborCount} related
+          </span>
+          {c.sharedGenres.length > 0 && (
+            <span className="flex flex-wrap gap-1 mt-0.5">
+              {c.sharedGenres.map((g) => (
+                <span key={g} className="px-1 text-[9px] rounded bg-gray-100 text-gray-500 border border-gray-200">{g}</span>
+              ))}
+            </span>
+          )}
+        </button>
+      ))}
+      {unconnectedSeeds.length > 0 && (
+        <p className="text-[10px] text-gray-400">
+          No direct tie to {unconnectedSeeds.map((id) => nodeTitle(nodeIndex.get(id), id)).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+const DetailPanel: React.FC<DetailPanelProps> = ({
+  selected,
+  onReset,
+  isDisliked = false,
+  onToggleDislike,
+  readingEntry = null,
+  onSetReadingStatus,
+  onSetReadingRating,
+  explanation = null,
+  nodeIndex,
+  highlightedEdges,
+  onHighlightEdges,
+  onAddToPicks,
+}) => {
   const handleGoogleSearch = () => {
     if (!selected) return;
     const query = selected.title_en || selected.title;
@@ -85,7 +178,7 @@ const DetailPanel: React.FC<DetailPanelProps> = ({ selected, onReset }) => {
               
               <div className="flex items-center flex-wrap gap-1.5 mt-1">
                 <div className="flex items-center gap-1 bg-yellow-50 text-yellow-700 px-1.5 py-0.5 rounded border border-yellow-100">
-                  <span className="text-xs md:text-sm font-bold">★ {selected.score}</span>
+                  <span className="text-xs md:text-sm font-bold">{formatScore(selected.score)}</span>
                 </div>
                 <span className="text-[9px] md:text-[10px] text-gray-300 border border-gray-100 px-1 py-0.5 rounded font-mono">ID:{selected.id}</span>
               </div>
@@ -108,6 +201,79 @@ const DetailPanel: React.FC<DetailPanelProps> = ({ selected, onReset }) => {
             Search synopsis
           </button>
 
+          {explanation && onAddToPicks && (
+            <button
+              onClick={() => onAddToPicks(selected)}
+              className="w-full flex items-center justify-center gap-1.5 bg-gray-800 hover:bg-gray-900 text-white py-1.5 md:py-2 px-3 rounded md:rounded-lg text-xs md:text-sm font-bold transition-colors"
+            >
+              ＋ Add to picks
+            </button>
+          )}
+
+          {explanation && nodeIndex && highlightedEdges && onHighlightEdges && (
+            <WhyRecommended
+              explanation={explanation}
+              nodeIndex={nodeIndex}
+              highlightedEdges={highlightedEdges}
+              onHighlightEdges={onHighlightEdges}
+            />
+          )}
+
+          {/* Reading List */}
+          {onSetReadingStatus && (
+            <div className="flex flex-col gap-1.5">
+              <div className="grid grid-cols-3 gap-1">
+                {READING_STATUSES.map((status) => {
+                  const isActive = readingEntry?.status === status.id;
+                  return (
+                    <button
+                      key={status.id}
+                      onClick={() => onSetReadingStatus(selected.id, isActive ? null : status.id)}
+                      className={`flex items-center justify-center gap-1 py-1 md:py-1.5 px-1 rounded text-[10px] md:text-xs font-bold border transition-colors ${
+                        isActive
+                          ? 'bg-gray-800 text-white border-gray-800'
+                          : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      <span>{status.icon}</span>
+                      <span className="truncate">{status.label}</span>
+                    </button>
+                  );
+                })}
+              </div>
+              {onSetReadingRating && (
+                <label className="flex items-center justify-between text-[10px] md:text-xs text-gray-500">
+                  <span>My rating</span>
+                  <select
+                    value={readingEntry?.rating ?? ''}
+                    onChange={(e) => onSetReadingRating(selected.id, e.target.value ? Number(e.target.value) : null)}
+                    className="bg-white border border-gray-200 rounded px-1.5 py-0.5 text-gray-700 cursor-pointer"
+                  >
+                    <option value="">–</option>
+                    {RATING_OPTIONS.map((r) => (
+                      <option key={r} value={r}>{r}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+          )}
+
+          {onToggleDislike && (
+            <button
+              onClick={() => onToggleDislike(selected)}
+              className={`w-full flex items-center justify-center gap-1.5 py-1.5 md:py-2 px-3 rounded md:rounded-lg text-xs md:text-sm font-bold border transition-colors ${
+                isDisliked
+                  ? 'bg-red-500 text-white border-red-500 hover:bg-red-600'
+                  : 'bg-white text-red-500 border-red-200 hover:bg-red-50'
+              }`}
+              title="Push recommendations away from this title"
+            >
+              <span>👎</span>
+              <span>{isDisliked ? 'Marked as not for me' : 'Not for me'}</span>
+            </button>
+          )}
+
           {/* Details (Genres & Desc) */}
           <div className="space-y-3">
             <div>
@@ -1,122 +1,226 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import Image from 'next/image';
+import React, { useEffect, useState, useMemo } from 'react';
 import { SearchableNode } from './ControlPanel';
+import { RawEdge } from '../lib/dataset';
+import { bayesianRating, computeRatingPrior, formatScore } from '../lib/popularity';
+import {
+  DISCOVERY_MAX_ROUNDS,
+  DISCOVERY_ROUND_SIZE,
+  DiscoveryAnswer,
+  DiscoveryItem,
+  DiscoverySession,
+  createDiscoverySession,
+  likedIds,
+  loadSeenTiles,
+  nextDiscoveryRound,
+  storeSeenTiles,
+} from '../lib/discovery';
 
 type DiscoveryModalProps = {
   isOpen: boolean;
   onClose: () => void;
   nodeList: SearchableNode[];
+  edges: RawEdge[];
+  // Community per loaded title (only titles that made it into the graph)
+  communityOf: Map<string, number>;
   onComplete: (selectedIds: string[]) => void;
+  onImportClick?: () => void;
 };
 
-const GRID_SIZE = 25; // 5x5
+// Below this many well-rated titles, every title in the graph is a candidate
+const MIN_POOL = DISCOVERY_ROUND_SIZE * DISCOVERY_MAX_ROUNDS;
 
-const DiscoveryModal: React.FC<DiscoveryModalProps> = ({
-  isOpen,
-  onClose,
-  nodeList,
-  onComplete,
-}) => {
-  const [displayedNodes, setDisplayedNodes] = useState<SearchableNode[]>([]);
-
-  // Score 8.0 or higher, or Award Winning works
-  const candidates = useMemo(() => {
-    return nodeList.filter((n) => {
-      const isHighScore = n.score >= 8.0;
-      const isAwardWinning = n.genres && n.genres.includes('Award Winning');
-      return isHighScore || isAwardWinning;
+const ANSWERS: { answer: DiscoveryAnswer; icon: string; label: string; active: string }[] = [
+  { answer: 'like', icon: '♥', label: 'Like', active: 'bg-pink-500 text-white' },
+  { answer: 'skip', icon: '✕', label: 'Not for me', active: 'bg-gray-700 text-white' },
+  { answer: 'unknown', icon: '?', label: "Haven't read", active: 'bg-blue-500 text-white' },
+];
+
+const TILE_RING: Record<DiscoveryAnswer, string> = {
+  like: 'border-pink-500 ring-2 ring-pink-300',
+  skip: 'border-gray-300 opacity-40',
+  unknown: 'border-blue-300 opacity-70',
+};
+
+const DiscoveryTile: React.FC<{
+  node: SearchableNode;
+  answer: DiscoveryAnswer | undefined;
+  onAnswer: (answer: DiscoveryAnswer) => void;
+}> = ({ node, answer, onAnswer }) => (
+  <div
+    className={`group relative aspect-[2/3] rounded-lg overflow-hidden border shadow-sm transition-all duration-200 ${
+      answer ? TILE_RING[answer] : 'border-gray-200 hover:shadow-lg hover:border-blue-500'
+    }`}
+  >
+    {/* Clicking the cover is a quick like */}
+    <button className="absolute inset-0" onClick={() => onAnswer('like')} title="Like">
+      <Image src={node.image_url} alt={node.title} fill className="object-cover" sizes="160px" />
+    </button>
+
+    <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/90 via-black/60 to-transparent p-2 pt-6 pointer-events-none">
+      <p className="text-white text-[10px] md:text-xs font-bold leading-tight line-clamp-2">
+        {node.title_en || node.title}
+      </p>
+      <div className="flex items-center gap-1 mt-1">
+        <span className="text-[9px] bg-yellow-500/90 text-white px-1 rounded">{formatScore(node.score)}</span>
+      </div>
+    </div>
+
+    <div className="absolute top-1 inset-x-1 flex justify-center gap-1">
+      {ANSWERS.map(({ answer: a, icon, label, active }) => (
+        <button
+          key={a}
+          onClick={() => onAnswer(a)}
+          title={label}
+          className={`w-6 h-6 rounded-full text-xs font-bold shadow transition-colors ${
+            answer === a ? active : 'bg-white/90 text-gray-600 hover:bg-white'
+          }`}
+        >
+          {icon}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+type RoundsState = {
+  session: DiscoverySession;
+  tiles: string[];
+};
+
+// One onboarding run; mounted fresh every time the modal opens, skipping tiles earlier runs showed
+const DiscoveryRounds: React.FC<Omit<DiscoveryModalProps, 'isOpen' | 'nodeList' | 'edges' | 'communityOf'> & {
+  nodesById: Map<string, SearchableNode>;
+  items: DiscoveryItem[];
+  neighbors: (id: string) => Map<string, number>;
+}> = ({ onClose, onComplete, onImportClick, nodesById, items, neighbors }) => {
+  const [{ session, tiles }, setRounds] = useState<RoundsState>(() => {
+    const session = createDiscoverySession(loadSeenTiles());
+    return { session, tiles: nextDiscoveryRound(items, session, { size: DISCOVERY_ROUND_SIZE, neighbors }) };
+  });
+
+  // A tile counts as seen once it is on screen, answered or not
+  useEffect(() => {
+    storeSeenTiles([...session.seen, ...tiles]);
+  }, [session.seen, tiles]);
+
+  const liked = likedIds(session);
+  const isLastRound = session.round >= DISCOVERY_MAX_ROUNDS - 1;
+
+  const handleAnswer = (id: string, answer: DiscoveryAnswer) => {
+    setRounds((prev) => {
+      const answers = new Map(prev.session.answers);
+      // Same answer again clears it
+      if (answers.get(id) === answer) answers.delete(id);
+      else answers.set(id, answer);
+      return { ...prev, session: { ...prev.session, answers } };
     });
-  }, [nodeList]);
-
-  // Function to randomly select 25 nodes
-  const refreshNodes = () => {
-    if (candidates.length === 0) return;
-    
-    // Shuffle
-    const shuffled = [...candidates].sort(() => 0.5 - Math.random());
-    setDisplayedNodes(shuffled.slice(0, GRID_SIZE));
   };
 
-  // Initialize when the modal is opened
-  useEffect(() => {
-    if (isOpen) {
-      refreshNodes();
-    }
-  }, [isOpen, candidates]);
+  // Unanswered tiles count as "haven't read" and are never shown again
+  const handleNextRound = () => {
+    setRounds((prev) => {
+      const answers = new Map(prev.session.answers);
+      prev.tiles.forEach((id) => { if (!answers.has(id)) answers.set(id, 'unknown'); });
+      const session = { round: prev.session.round + 1, seen: [...prev.session.seen, ...prev.tiles], answers };
+      return { session, tiles: nextDiscoveryRound(items, session, { size: DISCOVERY_ROUND_SIZE, neighbors }) };
+    });
+  };
 
-  const handleSelect = (node: SearchableNode) => {
-    onComplete([node.id]);
+  // Once every candidate has been shown, let the user go through them again (likes so far are kept)
+  const handleStartOver = () => {
+    setRounds((prev) => {
+      const session = { ...createDiscoverySession(), round: prev.session.round, answers: prev.session.answers };
+      return { session, tiles: nextDiscoveryRound(items, session, { size: DISCOVERY_ROUND_SIZE, neighbors }) };
+    });
+  };
+
+  const handleFinish = () => {
+    onComplete(liked);
     onClose();
   };
 
-  if (!isOpen) return null;
+  const likedPreview = liked.map((id) => nodesById.get(id)).filter((n): n is SearchableNode => !!n);
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
       <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-300">
-        
+
         {/* Header */}
         <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50 flex-shrink-0">
           <div>
-            <h3 className="font-bold text-gray-800 text-lg">Discovery Mode</h3>
-            <p className="text-xs text-gray-500">Select a manga you like to start exploring.</p>
+            <h3 className="font-bold text-gray-800 text-lg">
+              Discovery Mode
+              <span className="ml-2 text-xs font-normal text-gray-400">Round {session.round + 1} of {DISCOVERY_MAX_ROUNDS}</span>
+            </h3>
+            <p className="text-xs text-gray-500">
+              {session.round === 0
+                ? 'Mark what you like, what is not for you, and what you have not read. Each round adapts to your answers.'
+                : 'This round mixes titles close to your likes with corners of the map you have not seen yet.'}
+            </p>
           </div>
           <button onClick={onClose} className="text-gray-400 hover:text-gray-600 font-bold px-2 text-xl">
             ✕
           </button>
         </div>
 
-        {/* Content: 5x5 Grid */}
+        {/* Content: current round */}
         <div className="p-4 overflow-y-auto custom-scrollbar flex-1">
-          <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-3">
-            {displayedNodes.map((node) => (
-              <div 
-                key={node.id}
-                onClick={() => handleSelect(node)}
-                className="group relative aspect-[2/3] cursor-pointer rounded-lg overflow-hidden border border-gray-200 shadow-sm hover:shadow-lg hover:border-blue-500 hover:scale-[1.02] transition-all duration-200"
-              >
-                {/* Image */}
-                <img 
-                  src={node.image_url} 
-                  alt={node.title} 
-                  className="w-full h-full object-cover"
-                  loading="lazy"
-                />
-                
-                {/* Overlay Title (Hover or Bottom) */}
-                <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/90 via-black/50 to-transparent p-2 pt-6 opacity-100 transition-opacity">
-                  <p className="text-white text-[10px] md:text-xs font-bold leading-tight line-clamp-2">
-                    {node.title_en || node.title}
-                  </p>
-                  <div className="flex items-center gap-1 mt-1">
-                    <span className="text-[9px] bg-yellow-500/90 text-white px-1 rounded">★{node.score}</span>
-                  </div>
-                </div>
-
-                {/* Hover Effect Layer */}
-                <div className="absolute inset-0 bg-blue-600/20 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-                  <span className="bg-white text-blue-600 px-3 py-1 rounded-full text-xs font-bold shadow-sm transform scale-90 group-hover:scale-100 transition-transform">
-                    Select
-                  </span>
-                </div>
-              </div>
-            ))}
-          </div>
+          {tiles.length === 0 ? (
+            <div className="text-sm text-gray-400 text-center py-10">
+              <p>You have seen every candidate. Finish with your likes below.</p>
+              <button onClick={handleStartOver} className="mt-2 text-xs font-bold text-blue-600 hover:underline">
+                Show them again
+              </button>
+            </div>
+          ) : (
+            <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-3">
+              {tiles.map((id) => {
+                const node = nodesById.get(id);
+                if (!node) return null;
+                return <DiscoveryTile key={id} node={node} answer={session.answers.get(id)} onAnswer={(a) => handleAnswer(id, a)} />;
+              })}
+            </div>
+          )}
         </div>
 
-        {/* Footer: Refresh Button */}
-        <div className="p-4 border-t border-gray-100 bg-gray-50 flex justify-center items-center gap-4 flex-shrink-0">
-          <span className="text-xs text-gray-400">Don't know any of these?</span>
-          <button
-            onClick={refreshNodes}
-            className="flex items-center gap-2 px-5 py-2 bg-white border border-gray-300 hover:bg-gray-100 hover:text-gray-800 text-gray-600 rounded-full text-sm font-bold transition-colors shadow-sm"
-          >
-            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-              <path d="M23 4v6h-6"></path>
-              <path d="M1 20v-6h6"></path>
-              <path d="M3.51 9a9 9 0 0 1 14.85-3.36L23 10M1 14l4.64 4.36A9 9 0 0 0 20.49 15"></path>
-            </svg>
-            Refresh Candidates
-          </button>
+        {/* Footer: seed set so far and round controls */}
+        <div className="p-4 border-t border-gray-100 bg-gray-50 flex flex-wrap justify-between items-center gap-3 flex-shrink-0">
+          <div className="flex items-center gap-2 min-w-0 flex-1">
+            <span className="text-xs text-gray-500 flex-shrink-0">♥ {liked.length} liked</span>
+            <div className="flex gap-1 overflow-hidden">
+              {likedPreview.map((node) => (
+                <span key={node.id} className="text-[10px] bg-pink-50 border border-pink-200 text-pink-700 px-1.5 py-0.5 rounded max-w-[8rem] truncate">
+                  {node.title_en || node.title}
+                </span>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {onImportClick && session.round === 0 && (
+              <button
+                onClick={onImportClick}
+                className="px-4 py-2 text-blue-600 hover:bg-blue-50 rounded-full text-sm font-bold transition-colors"
+              >
+                Import from MyAnimeList
+              </button>
+            )}
+            {!isLastRound && tiles.length > 0 && (
+              <button
+                onClick={handleNextRound}
+                className="px-5 py-2 bg-white border border-gray-300 hover:bg-gray-100 hover:text-gray-800 text-gray-600 rounded-full text-sm font-bold transition-colors shadow-sm"
+              >
+                Next Round →
+              </button>
+            )}
+            <button
+              onClick={handleFinish}
+              disabled={liked.length === 0}
+              className="px-5 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-full text-sm font-bold transition-colors shadow-sm disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              Start with {liked.length} {liked.length === 1 ? 'pick' : 'picks'}
+            </button>
+          </div>
         </div>
 
       </div>
@@ -124,4 +228,54 @@ const DiscoveryModal: React.FC<DiscoveryModalProps> = ({
   );
 };
 
-export default DiscoveryModal;
\ No newline at end of file
+const DiscoveryModal: React.FC<DiscoveryModalProps> = ({
+  isOpen,
+  nodeList,
+  edges,
+  communityOf,
+  ...rest
+}) => {
+  const ratingPrior = useMemo(() => computeRatingPrior(nodeList), [nodeList]);
+  const nodesById = useMemo(() => new Map(nodeList.map((n) => [n.id, n])), [nodeList]);
+
+  // Weighted rating 8.0 or higher (so a few enthusiastic raters don't qualify), or Award Winning works
+  const items = useMemo(() => {
+    const inGraph = nodeList.filter((n) => communityOf.has(n.id));
+    const wellRated = inGraph.filter((n) => bayesianRating(n, ratingPrior) >= 8.0 || n.genres?.includes('Award Winning'));
+    const pool = wellRated.length >= MIN_POOL ? wellRated : inGraph;
+    return pool.map((n): DiscoveryItem => ({
+      id: n.id,
+      genres: n.genres || [],
+      community: communityOf.get(n.id),
+      quality: bayesianRating(n, ratingPrior),
+    }));
+  }, [nodeList, communityOf, ratingPrior]);
+
+  // Co-occurrence ties scaled so each title's strongest tie is 1
+  const neighborMap = useMemo(() => {
+    const adjacency = new Map<string, Map<string, number>>();
+    const link = (a: string, b: string, strength: number) => {
+      if (!adjacency.has(a)) adjacency.set(a, new Map());
+      adjacency.get(a)!.set(b, Math.max(adjacency.get(a)!.get(b) || 0, strength));
+    };
+    edges.forEach(({ source, target, strength }) => {
+      link(source, target, strength);
+      link(target, source, strength);
+    });
+    adjacency.forEach((ties) => {
+      const max = Math.max(...ties.values());
+      if (max > 0) ties.forEach((w, id) => ties.set(id, w / max));
+    });
+    return adjacency;
+  }, [edges]);
+  const neighbors = useMemo(() => {
+    const none = new Map<string, number>();
+    return (id: string) => neighborMap.get(id) ?? none;
+  }, [neighborMap]);
+
+  if (!isOpen || items.length === 0) return null;
+
+  return <DiscoveryRounds {...rest} nodesById={nodesById} items={items} neighbors={neighbors} />;
+};
+
+export default DiscoveryModal;
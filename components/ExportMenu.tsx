@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { useSigma } from '@react-sigma/core';
+import {
+  ExportEdge,
+  ExportNode,
+  ExportSubgraph,
+  downloadBlob,
+  escapeXml,
+  exportFileName,
+  toGexf,
+  toGraphml,
+  toJson,
+  toRelatedCsv,
+} from '../lib/exporters';
+
+type ExportMenuProps = {
+  visibleNodeIds: Set<string>;
+  selectedNodes: Set<string>;
+  dislikedNodes: Set<string>;
+  relevance: Map<string, number>;
+};
+
+const SNAPSHOT_BACKGROUND = '#f9fafb';
+// Labels smaller than this (in screen px) are skipped in the SVG, like sigma's own label grid
+const SVG_LABEL_MIN_SIZE = 6;
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ visibleNodeIds, selectedNodes, dislikedNodes, relevance }) => {
+  const sigma = useSigma();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const toExportNode = (id: string): ExportNode => {
+    const graph = sigma.getGraph();
+    const attrs = graph.getNodeAttributes(id);
+    return {
+      id,
+      title: attrs.title,
+      title_en: attrs.title_en,
+      score: attrs.score,
+      scored_by: attrs.scored_by,
+      genres: attrs.genres || [],
+      x: attrs.x,
+      y: attrs.y,
+      size: attrs.size,
+      color: attrs.color,
+      selected: selectedNodes.has(id),
+      relevance: relevance.get(id),
+    };
+  };
+
+  // Visible nodes plus the edges sigma currently draws between them
+  const buildSubgraph = (): ExportSubgraph => {
+    const graph = sigma.getGraph();
+    const ids = Array.from(visibleNodeIds).filter((id) => graph.hasNode(id));
+    const edges: ExportEdge[] = [];
+    graph.forEachEdge((edge, attrs, source, target) => {
+      if (!visibleNodeIds.has(source) || !visibleNodeIds.has(target)) return;
+      if (sigma.getEdgeDisplayData(edge)?.hidden) return;
+      edges.push({ source, target, strength: attrs.strength, weight: attrs.weight });
+    });
+    return { nodes: ids.map(toExportNode), edges };
+  };
+
+  const buildRelated = (): ExportNode[] => {
+    const graph = sigma.getGraph();
+    return Array.from(visibleNodeIds)
+      .filter((id) => graph.hasNode(id) && !selectedNodes.has(id) && !dislikedNodes.has(id))
+      .map(toExportNode)
+      .sort((a, b) => (b.relevance || 0) - (a.relevance || 0) || (b.score ?? 0) - (a.score ?? 0));
+  };
+
+  const exportPng = () => {
+    // Render synchronously so the WebGL buffers are still intact when copied
+    sigma.refresh();
+    const { width, height } = sigma.getDimensions();
+    const canvases = sigma.getCanvases();
+    const ratio = window.devicePixelRatio || 1;
+    const output = document.createElement('canvas');
+    output.width = width * ratio;
+    output.height = height * ratio;
+    const ctx = output.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = SNAPSHOT_BACKGROUND;
+    ctx.fillRect(0, 0, output.width, output.height);
+    Object.entries(canvases).forEach(([layer, canvas]) => {
+      if (layer === 'mouse') return;
+      ctx.drawImage(canvas, 0, 0, output.width, output.height);
+    });
+    output.toBlob((blob) => {
+      if (blob) downloadBlob(blob, exportFileName('snapshot', 'png'));
+    }, 'image/png');
+  };
+
+  const exportSvg = () => {
+    const graph = sigma.getGraph();
+    const { width, height } = sigma.getDimensions();
+    const toScreen = (id: string) => {
+      const data = sigma.getNodeDisplayData(id);
+      if (!data || data.hidden) return null;
+      const { x, y } = sigma.framedGraphToViewport(data);
+      return { x, y, size: sigma.scaleSize(data.size), color: data.color, label: data.label };
+    };
+
+    const lines: string[] = [];
+    graph.forEachEdge((edge, _attrs, source, target) => {
+      const data = sigma.getEdgeDisplayData(edge);
+      if (!data || data.hidden) return;
+      const a = toScreen(source);
+      const b = toScreen(target);
+      if (!a || !b) return;
+      lines.push(`<line x1="${a.x.toFixed(1)}" y1="${a.y.toFixed(1)}" x2="${b.x.toFixed(1)}" y2="${b.y.toFixed(1)}" stroke="${data.color}" stroke-width="${Math.max(0.5, sigma.scaleSize(data.size)).toFixed(2)}"/>`);
+    });
+    const circles: string[] = [];
+    const labels: string[] = [];
+    graph.forEachNode((node) => {
+      const p = toScreen(node);
+      if (!p) return;
+      circles.push(`<circle cx="${p.x.toFixed(1)}" cy="${p.y.toFixed(1)}" r="${p.size.toFixed(2)}" fill="${p.color}"/>`);
+      if (p.label && p.size >= SVG_LABEL_MIN_SIZE) {
+        labels.push(`<text x="${(p.x + p.size + 3).toFixed(1)}" y="${(p.y + 4).toFixed(1)}">${escapeXml(p.label)}</text>`);
+      }
+    });
+
+    const svg = `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <rect width="100%" height="100%" fill="${SNAPSHOT_BACKGROUND}"/>
+  <g>${lines.join('')}</g>
+  <g>${circles.join('')}</g>
+  <g font-family="sans-serif" font-size="12" fill="#111827">${labels.join('')}</g>
+</svg>
+`;
+    downloadBlob(svg, exportFileName('snapshot', 'svg'), 'image/svg+xml');
+  };
+
+  const actions: { label: string; hint: string; run: () => void; disabled?: boolean }[] = [
+    { label: 'Subgraph JSON', hint: '.json', run: () => downloadBlob(toJson(buildSubgraph()), exportFileName('subgraph', 'json'), 'application/json') },
+    { label: 'Subgraph GEXF', hint: 'Gephi', run: () => downloadBlob(toGexf(buildSubgraph()), exportFileName('subgraph', 'gexf'), 'application/xml') },
+    { label: 'Subgraph GraphML', hint: '.graphml', run: () => downloadBlob(toGraphml(buildSubgraph()), exportFileName('subgraph', 'graphml'), 'application/xml') },
+    {
+      label: 'Related list CSV',
+      hint: 'with relevance',
+      run: () => downloadBlob(toRelatedCsv(buildRelated()), exportFileName('related', 'csv'), 'text/csv'),
+      disabled: selectedNodes.size === 0,
+    },
+    { label: 'Snapshot PNG', hint: 'canvas', run: exportPng },
+    { label: 'Snapshot SVG', hint: 'vector', run: exportSvg },
+  ];
+
+  return (
+    <div className="absolute top-16 right-4 z-10">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="bg-white p-2 rounded-lg shadow-md border border-gray-200 text-gray-500 hover:bg-gray-50 hover:text-blue-600 transition-colors"
+        title="Export"
+      >
+        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+          <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path>
+          <polyline points="7 10 12 15 17 10"></polyline>
+          <line x1="12" y1="15" x2="12" y2="3"></line>
+        </svg>
+      </button>
+      {isOpen && (
+        <ul className="absolute right-0 mt-2 w-52 bg-white rounded-lg shadow-xl border border-gray-100 divide-y divide-gray-50 overflow-hidden">
+          {actions.map((action) => (
+            <li key={action.label}>
+              <button
+                onClick={() => { action.run(); setIsOpen(false); }}
+                disabled={action.disabled}
+                className="w-full flex justify-between items-center px-3 py-2 text-xs text-gray-700 hover:bg-blue-50 disabled:text-gray-300 disabled:hover:bg-white"
+              >
+                <span className="font-bold">{action.label}</span>
+                <span className="text-[10px] text-gray-400">{action.hint}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,244 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useSigma } from '@react-sigma/core';
+import { RawNode } from '../lib/dataset';
+import { VisibleNeighbor, byNavPriority, visibleNeighbors } from '../lib/graphNavigation';
+
+// The visible subgraph as a tree (titles, then their linked titles) for keyboard
+// and screen reader users. It shares the keyboard cursor with the canvas.
+type GraphOutlineProps = {
+  visibleNodeIds: Set<string>;
+  selectedNodes: Set<string>;
+  dislikedNodes: Set<string>;
+  relevance: Map<string, number>;
+  minStrength: number;
+  cursorNode: string | null;
+  onMoveCursor: (nodeId: string | null) => void;
+  onToggleNode: (nodeId: string) => void;
+  onToggleDislike: (nodeId: string) => void;
+  onClearSelection: () => void;
+};
+
+// Long lists are cut so the tree stays quick to render and to read through
+const OUTLINE_MAX_TITLES = 200;
+const OUTLINE_MAX_NEIGHBORS = 20;
+// Wait for sliders to settle before announcing the count
+const COUNT_ANNOUNCE_DELAY_MS = 600;
+
+type OutlineRow = { id: string; neighbors: VisibleNeighbor[] };
+type OutlineItem = { key: string; id: string; parentKey: string | null };
+
+const getDisplayTitle = (node: RawNode) => node.title_en || node.title;
+
+const plural = (n: number, word: string) => `${n.toLocaleString()} ${word}${n === 1 ? '' : 's'}`;
+
+const GraphOutline: React.FC<GraphOutlineProps> = ({
+  visibleNodeIds,
+  selectedNodes,
+  dislikedNodes,
+  relevance,
+  minStrength,
+  cursorNode,
+  onMoveCursor,
+  onToggleNode,
+  onToggleDislike,
+  onClearSelection,
+}) => {
+  const sigma = useSigma();
+  const [isOpen, setIsOpen] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+  const [announcedCount, setAnnouncedCount] = useState<number | null>(null);
+  const itemRefs = useRef(new Map<string, HTMLLIElement>());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setAnnouncedCount(visibleNodeIds.size), COUNT_ANNOUNCE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [visibleNodeIds]);
+
+  const rows = useMemo((): OutlineRow[] => {
+    if (!isOpen) return [];
+    const graph = sigma.getGraph();
+    const isVisible = (id: string) => visibleNodeIds.has(id);
+    return Array.from(visibleNodeIds)
+      .filter((id) => graph.hasNode(id))
+      .sort(byNavPriority(graph, selectedNodes, relevance))
+      .slice(0, OUTLINE_MAX_TITLES)
+      .map((id) => ({ id, neighbors: visibleNeighbors(graph, id, isVisible, minStrength) }));
+  }, [isOpen, sigma, visibleNodeIds, selectedNodes, relevance, minStrength]);
+
+  // Every item in display order, for arrow key movement
+  const items: OutlineItem[] = rows.flatMap(({ id, neighbors }) => [
+    { key: id, id, parentKey: null },
+    ...(expanded.has(id)
+      ? neighbors.slice(0, OUTLINE_MAX_NEIGHBORS).map((n) => ({ key: `${id}/${n.id}`, id: n.id, parentKey: id }))
+      : []),
+  ]);
+  // Roving tabindex: only one item is in the tab order
+  const tabKey = items.some((item) => item.key === activeKey) ? activeKey : items[0]?.key;
+
+  const titleOf = (id: string) => getDisplayTitle(sigma.getGraph().getNodeAttributes(id) as RawNode);
+
+  const describe = (id: string, detail: string) =>
+    [titleOf(id), selectedNodes.has(id) && 'pick', dislikedNodes.has(id) && 'disliked', detail].filter(Boolean).join(', ');
+
+  const toggleExpanded = (id: string) => {
+    const next = new Set(expanded);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExpanded(next);
+  };
+
+  const toggleSelection = (id: string) => {
+    if (dislikedNodes.has(id)) onToggleDislike(id);
+    else onToggleNode(id);
+  };
+
+  const focusItem = (key: string | undefined) => {
+    if (key) itemRefs.current.get(key)?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const index = items.findIndex((item) => item.key === tabKey);
+    const item = items[index];
+    if (!item) return;
+    const handled = ['ArrowDown', 'ArrowUp', 'ArrowRight', 'ArrowLeft', 'Home', 'End', 'Enter', ' ', 'Escape'];
+    if (!handled.includes(e.key)) return;
+    e.preventDefault();
+    if (e.key === 'ArrowDown') focusItem(items[index + 1]?.key);
+    else if (e.key === 'ArrowUp') focusItem(items[index - 1]?.key);
+    else if (e.key === 'Home') focusItem(items[0].key);
+    else if (e.key === 'End') focusItem(items[items.length - 1].key);
+    else if (e.key === 'ArrowRight') {
+      // Open a title, or step into its first linked title when already open
+      if (item.parentKey) return;
+      if (!expanded.has(item.id)) toggleExpanded(item.id);
+      else if (items[index + 1]?.parentKey === item.key) focusItem(items[index + 1].key);
+    } else if (e.key === 'ArrowLeft') {
+      if (item.parentKey) focusItem(item.parentKey);
+      else if (expanded.has(item.id)) toggleExpanded(item.id);
+    } else if (e.key === 'Escape') onClearSelection();
+    else toggleSelection(item.id);
+  };
+
+  // The cursor goes away once focus leaves both the list and the canvas
+  const handleBlur = (e: React.FocusEvent) => {
+    const next = e.relatedTarget instanceof Element ? e.relatedTarget : null;
+    if (!next?.closest('[data-graph-outline], .sigma-container')) onMoveCursor(null);
+  };
+
+  const renderItem = ({ key, id, parentKey }: OutlineItem, label: string, meta: string, group?: React.ReactNode) => (
+    <li
+      key={key}
+      ref={(el) => {
+        if (el) itemRefs.current.set(key, el);
+        else itemRefs.current.delete(key);
+      }}
+      role="treeitem"
+      aria-level={parentKey ? 2 : 1}
+      aria-label={label}
+      aria-selected={selectedNodes.has(id)}
+      aria-expanded={parentKey ? undefined : expanded.has(id)}
+      tabIndex={key === tabKey ? 0 : -1}
+      className="outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-500"
+      onFocus={(e) => {
+        if (e.target !== e.currentTarget) return;
+        setActiveKey(key);
+        onMoveCursor(id);
+      }}
+      onClick={(e) => {
+        e.stopPropagation();
+        toggleSelection(id);
+      }}
+    >
+      <div
+        className={`flex items-center gap-1.5 py-1 pr-3 text-xs cursor-pointer hover:bg-gray-50 ${parentKey ? 'pl-7' : 'pl-2'} ${id === cursorNode ? 'bg-blue-50' : ''}`}
+      >
+        {!parentKey && (
+          <span
+            aria-hidden="true"
+            className="w-4 text-center text-gray-400 hover:text-blue-600"
+            onClick={(e) => {
+              e.stopPropagation();
+              toggleExpanded(id);
+            }}
+          >
+            {expanded.has(id) ? '▾' : '▸'}
+          </span>
+        )}
+        <span className={`truncate flex-1 ${selectedNodes.has(id) ? 'font-bold text-gray-900' : dislikedNodes.has(id) ? 'text-red-400 line-through' : 'text-gray-700'}`}>
+          {titleOf(id)}
+        </span>
+        <span className="text-[10px] text-gray-400 flex-shrink-0">{meta}</span>
+      </div>
+      {group}
+    </li>
+  );
+
+  const total = visibleNodeIds.size;
+
+  return (
+    <div data-graph-outline className="absolute top-52 right-4 z-10">
+      <p className="sr-only" role="status">
+        {announcedCount !== null && `${plural(announcedCount, 'title')} shown`}
+      </p>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`bg-white p-2 rounded-lg shadow-md border border-gray-200 hover:bg-gray-50 hover:text-blue-600 transition-colors ${isOpen ? 'text-blue-600' : 'text-gray-500'}`}
+        title={isOpen ? 'Hide List View' : 'List View'}
+        aria-label="List view of the titles shown"
+        aria-expanded={isOpen}
+        aria-controls="graph-outline"
+      >
+        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+          <line x1="8" y1="6" x2="21" y2="6"></line>
+          <line x1="8" y1="12" x2="21" y2="12"></line>
+          <line x1="8" y1="18" x2="21" y2="18"></line>
+          <line x1="3" y1="6" x2="3.01" y2="6"></line>
+          <line x1="3" y1="12" x2="3.01" y2="12"></line>
+          <line x1="3" y1="18" x2="3.01" y2="18"></line>
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div id="graph-outline" className="absolute top-0 right-12 w-72 max-h-[60vh] flex flex-col bg-white rounded-lg shadow-xl border border-gray-100 overflow-hidden">
+          <div className="px-3 py-2 border-b border-gray-100">
+            <p className="text-xs font-bold text-gray-700">{plural(total, 'title')} shown</p>
+            <p className="text-[10px] text-gray-400">↑↓ move · → open links · Enter pick · Esc clear</p>
+          </div>
+          {rows.length === 0 ? (
+            <p className="px-3 py-4 text-xs text-gray-400">No titles match the current filters.</p>
+          ) : (
+            <ul role="tree" aria-label="Titles shown" aria-multiselectable="true" className="overflow-y-auto py-1" onKeyDown={handleKeyDown} onBlur={handleBlur}>
+              {rows.map(({ id, neighbors }) =>
+                renderItem(
+                  { key: id, id, parentKey: null },
+                  describe(id, plural(neighbors.length, 'linked title')),
+                  String(neighbors.length),
+                  expanded.has(id) && (
+                    <ul role="group">
+                      {neighbors.length === 0 && <li role="none" className="pl-7 py-1 text-[10px] text-gray-400">No linked titles shown</li>}
+                      {neighbors.slice(0, OUTLINE_MAX_NEIGHBORS).map((n) =>
+                        renderItem(
+                          { key: `${id}/${n.id}`, id: n.id, parentKey: id },
+                          describe(n.id, `link strength ${Math.round(n.weight * 100)}%`),
+                          `${Math.round(n.weight * 100)}%`
+                        )
+                      )}
+                    </ul>
+                  )
+                )
+              )}
+            </ul>
+          )}
+          {total > rows.length && rows.length > 0 && (
+            <p className="px-3 py-2 border-t border-gray-100 text-[10px] text-gray-400">
+              Listing the first {OUTLINE_MAX_TITLES} of {total.toLocaleString()}; narrow the filters to list the rest.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GraphOutline;
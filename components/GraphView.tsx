@@ -1,8 +1,9 @@
 'use client';
 
-import React, { useEffect, useState, useRef, useCallback } from 'react';
+import React, { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import Image from 'next/image';
 import Graph from 'graphology';
+import { Attributes } from 'graphology-types';
 import {
   SigmaContainer,
   useLoadGraph,
@@ -14,36 +15,62 @@ import '@react-sigma/core/lib/style.css';
 import { MangaNode } from './DetailPanel';
 import ControlPanel, { SearchableNode } from './ControlPanel';
 import DiscoveryModal from './DiscoveryModal';
+import MalImportModal, { MalImportPayload } from './MalImportModal';
+import ExportMenu from './ExportMenu';
+import CompareModal from './CompareModal';
+import GraphOutline from './GraphOutline';
+import {
+  DATASET_QUERY_PARAM,
+  DatasetError,
+  GraphData,
+  RawEdge,
+  RawNode,
+  resolveDatasetVersion,
+} from '../lib/dataset';
+import { LOAD_MIN_SCORE, LoadProgress, ProgressiveDataset, loadProgressiveDataset, tierForZoom } from '../lib/chunkedDataset';
+import {
+  DEFAULT_STRENGTH_METHOD,
+  DEFAULT_STRENGTH_SCALE,
+  StrengthMethod,
+  StrengthScale,
+  normalizeEdgeStrengths,
+} from '../lib/edgeStrength';
+import { RankingMode, rankRecommendations } from '../lib/recommend';
+import { CameraView, DEFAULT_FILTERS, ViewFilters } from '../lib/urlState';
+import { READING_STATUSES, ReadingList, ReadingStatus } from '../lib/readingList';
+import { useLiveLayout } from '../lib/useLiveLayout';
+import { ColorMode, Community, detectCommunities, getCommunityColor } from '../lib/communities';
+import { BridgePath, DEFAULT_BRIDGE_PATHS, findBridgePaths } from '../lib/paths';
+import { DEFAULT_EGO_HOP_CAP, expandEgoNetwork } from '../lib/egoNetwork';
+import { NodePredicate, checkQuery } from '../lib/query';
+import { GenreFilter, GenreMode, matchesGenreFilter, setGenreMode } from '../lib/genreFilter';
+import { Explanation, explainRecommendation } from '../lib/explain';
+import { Comparison, MAX_COMPARE, compareNeighborhoods } from '../lib/compare';
+import { formatScore } from '../lib/popularity';
+import {
+  ARROW_DIRECTIONS,
+  NavDirection,
+  ScreenPoint,
+  pickInDirection,
+  pickStartNode,
+  visibleNeighbors,
+} from '../lib/graphNavigation';
+import {
+  INITIAL_LAYOUT_ITERATIONS,
+  INITIAL_LAYOUT_SETTINGS,
+  LIVE_LAYOUT_SETTINGS,
+  applyDegreeSizes,
+  hasStoredPositions,
+  placeNearNeighbors,
+  seedGenrePositions,
+} from '../lib/layout';
 
 // ==========================================
 // Settings
-const LOAD_MIN_SCORE = 1.0;
-const INITIAL_MIN_STRENGTH = 0.0;
-const INITIAL_DISPLAY_SCORE = 6.0;
+const EMPTY_EDGES: RawEdge[] = [];
 // ==========================================
 
 // --- Types ---
-type RawNode = {
-  id: string;
-  title: string;
-  title_en?: string | null;
-  image_url: string;
-  score: number;
-  scored_by: number;
-  genres: string[];
-};
-
-type RawEdge = {
-  source: string;
-  target: string;
-  strength: number;
-};
-
-type GraphData = {
-  nodes: RawNode[];
-  edges: RawEdge[];
-};
-
 type TooltipState = {
   node: RawNode;
   position: { x: number; y: number };
@@ -52,7 +79,23 @@ type TooltipState = {
 type GraphViewProps = {
   selectedNodes: Set<string>;
   onToggleNode: (node: MangaNode) => void;
+  dislikedNodes: Set<string>;
+  onToggleDislike: (node: MangaNode) => void;
   onClearSelection: () => void;
+  readingList: ReadingList;
+  onSetReadingStatus: (nodeId: string, status: ReadingStatus | null) => void;
+  onImportReadingEntries: (entries: MalImportPayload['readingEntries']) => void;
+  onNodesLoaded: (nodes: MangaNode[]) => void;
+  filters: ViewFilters;
+  onFiltersChange: (patch: Partial<ViewFilters>) => void;
+  cameraView: CameraView | null;
+  onCameraChange: (view: CameraView) => void;
+  // Recommendation shown in the Detail Panel, explained against the current picks
+  inspectedNode: string | null;
+  onInspectNode: (nodeId: string | null) => void;
+  onExplanation: (explanation: Explanation | null) => void;
+  // Edges picked out from the explanation
+  highlightedEdges: Set<string>;
   isDiscoveryOpen: boolean;
   onDiscoveryClose: () => void;
   // ▼ 追加: 親から受け取る「開く」関数
@@ -74,6 +117,31 @@ const GENRE_COLORS: Record<string, string> = {
   Default: '#94a3b8',
 };
 
+const READING_BORDER_COLORS: Record<ReadingStatus, string> = {
+  read: '#22c55e',
+  reading: '#f59e0b',
+  want: '#3b82f6',
+  dropped: '#94a3b8',
+};
+
+const READING_ICONS = Object.fromEntries(READING_STATUSES.map(s => [s.id, s.icon])) as Record<ReadingStatus, string>;
+
+// Each hop beyond the first blends node colors this much further toward white
+const EGO_FADE_STEP = 0.3;
+// Relevance of deeper hops is scaled down so they sort after direct recommendations
+const EGO_RELEVANCE_DECAY = 0.5;
+
+const fadeColor = (hex: string, amount: number): string => {
+  const m = /^#([0-9a-f]{6})$/i.exec(hex);
+  if (!m || amount <= 0) return hex;
+  const value = parseInt(m[1], 16);
+  const channel = (shift: number) => {
+    const c = (value >> shift) & 0xff;
+    return Math.round(c + (255 - c) * Math.min(amount, 1)).toString(16).padStart(2, '0');
+  };
+  return `#${channel(16)}${channel(8)}${channel(0)}`;
+};
+
 const getGenreColor = (genres: string[]): string => {
   if (!genres || genres.length === 0) return GENRE_COLORS.Default;
   const primaryGenre = genres.find(g => g !== 'Award Winning');
@@ -97,20 +165,27 @@ const convertToMangaNode = (raw: RawNode): MangaNode => ({
 });
 
 // --- Feature 1: Tooltip ---
-const Tooltip: React.FC<{ tooltip: TooltipState }> = ({ tooltip }) => {
+// With actions it is the long-press preview card, kept on screen so it can be tapped
+const PREVIEW_CARD_SIZE = { width: 296, height: 180 };
+
+const Tooltip: React.FC<{ tooltip: TooltipState; actions?: React.ReactNode }> = ({ tooltip, actions }) => {
   if (!tooltip) return null;
   const color = getGenreColor(tooltip.node.genres);
   const mainTitle = getDisplayTitle(tooltip.node);
   const subTitle = mainTitle !== tooltip.node.title ? tooltip.node.title : null;
+  const left = tooltip.position.x + 15;
+  const top = tooltip.position.y + 15;
 
   return (
     <div
-      className="absolute z-10 p-3 rounded-xl shadow-xl bg-white/95 backdrop-blur border border-gray-100 text-sm text-gray-800 pointer-events-none flex gap-3 min-w-[280px]"
+      className={`absolute z-10 p-3 rounded-xl shadow-xl bg-white/95 backdrop-blur border border-gray-100 text-sm text-gray-800 flex gap-3 min-w-[280px] ${actions ? 'pointer-events-auto' : 'pointer-events-none'}`}
       style={{
-        left: tooltip.position.x + 15,
-        top: tooltip.position.y + 15,
+        left: actions ? Math.max(8, Math.min(left, window.innerWidth - PREVIEW_CARD_SIZE.width)) : left,
+        top: actions ? Math.max(8, Math.min(top, window.innerHeight - PREVIEW_CARD_SIZE.height)) : top,
         borderLeft: `4px solid ${color}`
       }}
+      role={actions ? 'dialog' : undefined}
+      aria-label={actions ? mainTitle : undefined}
     >
       <div className="relative w-16 h-24 flex-shrink-0 rounded overflow-hidden bg-gray-100 shadow-sm">
         {tooltip.node.image_url ? (
@@ -134,7 +209,7 @@ const Tooltip: React.FC<{ tooltip: TooltipState }> = ({ tooltip }) => {
         </div>
         <div className="flex items-center gap-2 mt-1">
           <span className="bg-yellow-50 text-yellow-700 border border-yellow-100 text-xs px-2 py-0.5 rounded font-bold">
-            ★ {tooltip.node.score ?? '-'}
+            {formatScore(tooltip.node.score)}
           </span>
           <span className="text-[10px] text-gray-400">
             {tooltip.node.scored_by ? `${tooltip.node.scored_by.toLocaleString()} users` : '-'}
@@ -147,49 +222,169 @@ const Tooltip: React.FC<{ tooltip: TooltipState }> = ({ tooltip }) => {
             </span>
           ))}
         </div>
+        {actions && <div className="flex gap-2 mt-2">{actions}</div>}
       </div>
     </div>
   );
 };
 
+// Play/pause for the live layout plus a full re-layout from scattered positions
+const LayoutControls: React.FC<{
+  isRunning: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onRerun: () => void;
+}> = ({ isRunning, onPause, onResume, onRerun }) => {
+  const buttonClass = "bg-white p-2 rounded-lg shadow-md border border-gray-200 text-gray-500 hover:bg-gray-50 hover:text-blue-600 transition-colors";
+  return (
+    <div className="absolute top-28 right-4 z-10 flex flex-col gap-2">
+      <button
+        onClick={isRunning ? onPause : onResume}
+        className={buttonClass}
+        title={isRunning ? 'Pause Layout' : 'Resume Layout'}
+      >
+        {isRunning ? (
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <rect x="6" y="4" width="4" height="16"></rect>
+            <rect x="14" y="4" width="4" height="16"></rect>
+          </svg>
+        ) : (
+          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <polygon points="6 3 20 12 6 21 6 3"></polygon>
+          </svg>
+        )}
+      </button>
+      <button onClick={onRerun} className={buttonClass} title="Re-run Layout">
+        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+          <polyline points="23 4 23 10 17 10"></polyline>
+          <path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10"></path>
+        </svg>
+      </button>
+    </div>
+  );
+};
+
 // ==========================================
 // Interactive Graph Logic
 // ==========================================
+// Read out when the canvas gets focus
+const GRAPH_KEYBOARD_HELP =
+  'Recommendation graph. Arrow keys move to a linked title in that direction, Tab steps through the linked titles, ' +
+  'Enter adds or removes a pick, Escape clears the selection. The list view shows the same titles as a tree.';
+// Pan to the cursor when it comes within this share of the viewport's edge
+const CURSOR_EDGE_MARGIN = 0.1;
+// A press that moves further than this (px) becomes a drag; fingers get more slack than a mouse
+const DRAG_THRESHOLD_MOUSE = 5;
+const DRAG_THRESHOLD_TOUCH = 10;
+// Holding a finger on a node this long opens its preview card
+const LONG_PRESS_MS = 500;
+
 type InteractiveGraphProps = {
   selectedNodes: Set<string>;
   onToggleNode: (nodeId: string) => void;
+  dislikedNodes: Set<string>;
+  onToggleDislike: (nodeId: string) => void;
+  readingList: ReadingList;
   setTooltip: (t: TooltipState) => void;
+  // Long-press card on touch screens, which have no hover tooltip
+  setPreview: (t: TooltipState) => void;
   onClearSelection: () => void;
   minStrength: number;
   minScore: number;
+  minRaters: number;
   onUpdateVisibleNodes: (nodeIds: Set<string>) => void;
+  onUpdateRelevance: (scores: Map<string, number>) => void;
+  rankingMode: RankingMode;
+  minSeedLinks: number;
+  egoDepth: number;
+  onUpdateHops: (hops: Map<string, number>) => void;
   assignFocusFn: (fn: (nodeId: string) => void) => void;
-  selectedGenres: Set<string>;
+  genreFilter: GenreFilter;
   isAwardWinningOnly: boolean;
+  // Parsed advanced query; replaces the score and genre checks when present
+  queryFilter: NodePredicate | null;
+  colorMode: ColorMode;
+  community: number | null;
+  // Bridge mode: show the strongest paths between two titles instead of recommendations
+  bridge: { source: string; target: string } | null;
+  activeBridgePath: number;
+  onUpdateBridgePaths: (paths: BridgePath[]) => void;
+  explainTarget: string | null;
+  onUpdateExplanation: (explanation: Explanation | null) => void;
+  highlightedEdges: Set<string>;
+  // Picks open in the comparison view
+  compareNodes: string[];
+  onUpdateComparison: (comparison: Comparison | null) => void;
+  // Start the live layout on mount (off when the dataset has baked positions)
+  autoLayout: boolean;
+  // Bumped whenever edges are re-weighted, which also follows every tier merged into the graph
+  graphRevision: number;
+  // Title under the keyboard cursor, shared with the outline view
+  cursorNode: string | null;
+  onMoveCursor: (nodeId: string | null) => void;
 };
 
 const InteractiveGraph: React.FC<InteractiveGraphProps> = ({
   selectedNodes,
   onToggleNode,
+  dislikedNodes,
+  onToggleDislike,
+  readingList,
   setTooltip,
+  setPreview,
   onClearSelection,
   minStrength,
   minScore,
+  minRaters,
   onUpdateVisibleNodes,
+  onUpdateRelevance,
+  rankingMode,
+  minSeedLinks,
+  egoDepth,
+  onUpdateHops,
   assignFocusFn,
-  selectedGenres,
+  genreFilter,
   isAwardWinningOnly,
+  queryFilter,
+  colorMode,
+  community,
+  bridge,
+  activeBridgePath,
+  onUpdateBridgePaths,
+  explainTarget,
+  onUpdateExplanation,
+  highlightedEdges,
+  compareNodes,
+  onUpdateComparison,
+  autoLayout,
+  graphRevision,
+  cursorNode,
+  onMoveCursor,
 }) => {
   const sigma = useSigma();
   const graph = sigma.getGraph();
   const registerEvents = useRegisterEvents();
+  const layout = useLiveLayout(graph, LIVE_LAYOUT_SETTINGS, autoLayout);
+  const { suspend: suspendLayout, resume: resumeLayout } = layout;
+  // Read by the drop handler; a drag suspends the worker without clearing this
+  const layoutRunningRef = useRef(layout.isRunning);
+  useEffect(() => {
+    layoutRunningRef.current = layout.isRunning;
+  }, [layout.isRunning]);
 
-  const dragInfoRef = useRef<{
+  // The node press in progress, followed through pointer events so mouse, pen and touch behave alike
+  const gestureRef = useRef<{
     nodeId: string;
+    pointerId: number;
     startX: number;
     startY: number;
     isDragging: boolean;
+    // Held long enough to open the preview card; letting go then doesn't toggle the pick
+    isLongPress: boolean;
   } | null>(null);
+  const lastPointerRef = useRef<PointerEvent | null>(null);
+  // Fingers currently down, to tell a pinch from a one-finger press
+  const touchPointsRef = useRef(new Set<number>());
 
   const [hoveredNode, setHoveredNode] = useState<string | null>(null);
 
@@ -212,119 +407,161 @@ const InteractiveGraph: React.FC<InteractiveGraphProps> = ({
   }, [assignFocusFn, handleFocus]);
 
   useEffect(() => {
-    const handleMouseMove = (e: MouseEvent) => {
-      if (!dragInfoRef.current) return;
-      const { nodeId, startX, startY, isDragging } = dragInfoRef.current;
-      const dx = e.clientX - startX;
-      const dy = e.clientY - startY;
-      const dist = Math.hypot(dx, dy);
-
-      if (!isDragging && dist > 5) {
-        dragInfoRef.current.isDragging = true;
-        if (!graph.hasNodeAttribute(nodeId, 'fixed')) {
-          graph.setNodeAttribute(nodeId, 'fixed', true);
+    const touchPoints = touchPointsRef.current;
+    let longPressTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const openPreview = (nodeId: string) => {
+      const nodeDisplay = sigma.getNodeDisplayData(nodeId);
+      if (!nodeDisplay || nodeDisplay.hidden) return;
+      setHoveredNode(null);
+      setPreview({
+        node: graph.getNodeAttributes(nodeId) as RawNode,
+        position: sigma.graphToViewport({ x: nodeDisplay.x, y: nodeDisplay.y }),
+      });
+    };
+
+    const endGesture = () => {
+      const gesture = gestureRef.current;
+      clearTimeout(longPressTimer);
+      gestureRef.current = null;
+      sigma.getContainer().style.cursor = 'default';
+      if (!gesture?.isDragging) return;
+      if (graph.hasNode(gesture.nodeId)) {
+        graph.removeNodeAttribute(gesture.nodeId, 'fixed');
+      }
+      // Let the neighbours settle around the new position, but only if the layout was
+      // already running: a baked or paused layout keeps every other node where it is
+      if (layoutRunningRef.current) resumeLayout();
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      lastPointerRef.current = e;
+      if (e.pointerType === 'touch') touchPoints.add(e.pointerId);
+      // A second finger means a pinch: drop the press so nothing gets picked
+      if (touchPoints.size > 1) endGesture();
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      lastPointerRef.current = e;
+      const gesture = gestureRef.current;
+      if (!gesture || e.pointerId !== gesture.pointerId || gesture.isLongPress) return;
+      const dist = Math.hypot(e.clientX - gesture.startX, e.clientY - gesture.startY);
+
+      if (!gesture.isDragging && dist > (e.pointerType === 'mouse' ? DRAG_THRESHOLD_MOUSE : DRAG_THRESHOLD_TOUCH)) {
+        clearTimeout(longPressTimer);
+        gesture.isDragging = true;
+        // The worker would overwrite the dragged position, so hold it until the drop
+        suspendLayout();
+        if (!graph.hasNodeAttribute(gesture.nodeId, 'fixed')) {
+          graph.setNodeAttribute(gesture.nodeId, 'fixed', true);
         }
         setTooltip(null);
         sigma.getContainer().style.cursor = 'grabbing';
       }
 
-      if (dragInfoRef.current.isDragging) {
-        e.preventDefault();
-        e.stopPropagation();
+      if (gesture.isDragging) {
         const rect = sigma.getContainer().getBoundingClientRect();
-        const mouseGraphPos = sigma.viewportToGraph({ 
-          x: e.clientX - rect.left, 
-          y: e.clientY - rect.top 
+        const pointerGraphPos = sigma.viewportToGraph({
+          x: e.clientX - rect.left,
+          y: e.clientY - rect.top
         });
-        graph.setNodeAttribute(nodeId, 'x', mouseGraphPos.x);
-        graph.setNodeAttribute(nodeId, 'y', mouseGraphPos.y);
-        graph.setNodeAttribute(nodeId, 'vx', 0);
-        graph.setNodeAttribute(nodeId, 'vy', 0);
+        graph.setNodeAttribute(gesture.nodeId, 'x', pointerGraphPos.x);
+        graph.setNodeAttribute(gesture.nodeId, 'y', pointerGraphPos.y);
+        graph.setNodeAttribute(gesture.nodeId, 'vx', 0);
+        graph.setNodeAttribute(gesture.nodeId, 'vy', 0);
       }
     };
 
-    const handleMouseUp = (e: MouseEvent) => {
-      if (!dragInfoRef.current) return;
-      const { nodeId, isDragging } = dragInfoRef.current;
-
-      if (isDragging) {
-        if (graph.hasNode(nodeId)) {
-          graph.removeNodeAttribute(nodeId, 'fixed');
+    const handlePointerUp = (e: PointerEvent) => {
+      touchPoints.delete(e.pointerId);
+      const gesture = gestureRef.current;
+      if (!gesture || e.pointerId !== gesture.pointerId) return;
+      const { nodeId, isDragging, isLongPress } = gesture;
+
+      // A drag or a long press is not a tap
+      if (!isDragging && !isLongPress) {
+        if (dislikedNodes.has(nodeId)) {
+          // Tapping a disliked title only lifts the dislike
+          onToggleDislike(nodeId);
+        } else {
+          const attrs = graph.getNodeAttributes(nodeId) as RawNode;
+          onToggleNode(convertToMangaNode(attrs).id);
+          handleFocus(nodeId);
         }
-      } else {
-        const attrs = graph.getNodeAttributes(nodeId) as RawNode;
-        onToggleNode(convertToMangaNode(attrs).id);
-        handleFocus(nodeId);
       }
+      endGesture();
+    };
 
-      dragInfoRef.current = null;
-      sigma.getContainer().style.cursor = 'default';
-      document.removeEventListener('mousemove', handleMouseMove);
-      document.removeEventListener('mouseup', handleMouseUp);
+    // The browser took the pointer over (system gesture, lost capture): treat it as let go without a tap
+    const handlePointerCancel = (e: PointerEvent) => {
+      touchPoints.delete(e.pointerId);
+      if (gestureRef.current?.pointerId === e.pointerId) endGesture();
     };
 
     registerEvents({
+      // Sigma finds the node under the pointer; the pointer listeners above follow the gesture from there
       downNode: (e) => {
-        if ('button' in e.event.original && (e.event.original as MouseEvent).button !== 0) return;
-        e.event.original.stopPropagation();
-        
-        const touches = (e.event.original as any).touches;
-        const clientX = touches && touches.length > 0 ? touches[0].clientX : (e.event.original as MouseEvent).clientX;
-        const clientY = touches && touches.length > 0 ? touches[0].clientY : (e.event.original as MouseEvent).clientY;
-
-        dragInfoRef.current = {
+        const pointer = lastPointerRef.current;
+        setPreview(null);
+        if (!pointer || pointer.button !== 0 || touchPoints.size > 1) return;
+        // Keep the camera still while a node is held
+        e.preventSigmaDefault();
+        gestureRef.current = {
           nodeId: e.node,
-          startX: clientX,
-          startY: clientY,
+          pointerId: pointer.pointerId,
+          startX: pointer.clientX,
+          startY: pointer.clientY,
           isDragging: false,
+          isLongPress: false,
         };
-        document.addEventListener('mousemove', handleMouseMove);
-        document.addEventListener('mouseup', handleMouseUp);
+        if (pointer.pointerType !== 'mouse') {
+          longPressTimer = setTimeout(() => {
+            const gesture = gestureRef.current;
+            if (!gesture || gesture.isDragging) return;
+            gesture.isLongPress = true;
+            openPreview(gesture.nodeId);
+          }, LONG_PRESS_MS);
+        }
+      },
+      downStage: () => setPreview(null),
+      moveBody: ({ event }) => {
+        // A held node follows the pointer instead of the camera panning
+        if (gestureRef.current) event.preventSigmaDefault();
+      },
+      rightClickNode: (e) => {
+        e.event.original.preventDefault();
+        // Phones report a long press as a context menu too; that one opens the preview instead
+        if (lastPointerRef.current?.pointerType !== 'mouse') return;
+        onToggleDislike(e.node);
       },
-      clickStage: () => {},
       enterNode: ({ node }) => {
+        // Touch has no hover; a finger landing on a node would leave its tooltip stuck
+        if (lastPointerRef.current && lastPointerRef.current.pointerType !== 'mouse') return;
         setHoveredNode(node);
-        if (!dragInfoRef.current) sigma.getContainer().style.cursor = 'grab';
+        if (!gestureRef.current) sigma.getContainer().style.cursor = 'grab';
       },
       leaveNode: () => {
         setHoveredNode(null);
-        if (!dragInfoRef.current) sigma.getContainer().style.cursor = 'default';
+        if (!gestureRef.current) sigma.getContainer().style.cursor = 'default';
       },
     });
 
+    window.addEventListener('pointerdown', handlePointerDown, true);
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerCancel);
     return () => {
-      document.removeEventListener('mousemove', handleMouseMove);
-      document.removeEventListener('mouseup', handleMouseUp);
-    };
-  }, [registerEvents, sigma, graph, onToggleNode, setTooltip, onClearSelection, handleFocus]);
-
-
-  useEffect(() => {
-    let frameId: number;
-    const animate = () => {
-      if (graph.order > 0) {
-        forceAtlas2.assign(graph, {
-          iterations: 3,
-          settings: {
-            adjustSizes: true,
-            gravity: 0.1,
-            scalingRatio: 80,
-            slowDown: 10,
-            barnesHutOptimize: true,
-            outboundAttractionDistribution: true,
-            edgeWeightInfluence: 1, 
-          }
-        });
-      }
-      frameId = requestAnimationFrame(animate);
+      clearTimeout(longPressTimer);
+      window.removeEventListener('pointerdown', handlePointerDown, true);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerCancel);
     };
-    animate();
-    return () => cancelAnimationFrame(frameId);
-  }, [graph]);
+  }, [registerEvents, sigma, graph, onToggleNode, dislikedNodes, onToggleDislike, setTooltip, setPreview, handleFocus, suspendLayout, resumeLayout]);
 
 
   useEffect(() => {
-    if (!hoveredNode || dragInfoRef.current?.isDragging) {
+    if (!hoveredNode || gestureRef.current?.isDragging) {
       setTooltip(null); return;
     }
     const nodeDisplay = sigma.getNodeDisplayData(hoveredNode);
@@ -337,21 +574,166 @@ const InteractiveGraph: React.FC<InteractiveGraphProps> = ({
     });
   }, [hoveredNode, sigma, graph, setTooltip]); 
 
+  // --- Keyboard traversal ---
+  // Kept by the filter effect below so the key handlers see the current view
+  const activeNodesRef = useRef<Set<string>>(new Set());
+  const relevanceRef = useRef<Map<string, number>>(new Map());
+  const cursorRef = useRef<string | null>(null);
+  // Title whose neighbors Tab is stepping through
+  const tabHubRef = useRef<string | null>(null);
+  const [cursorMessage, setCursorMessage] = useState('');
+
+  useEffect(() => {
+    const container = sigma.getContainer();
+    container.tabIndex = 0;
+    container.setAttribute('role', 'application');
+    container.setAttribute('aria-roledescription', 'graph');
+    container.setAttribute('aria-label', GRAPH_KEYBOARD_HELP);
+    container.classList.add('outline-none', 'focus-visible:ring-2', 'focus-visible:ring-inset', 'focus-visible:ring-blue-500');
+  }, [sigma]);
+
+  // Redraw the old and new cursor, and pan when the new one is near the edge
+  useEffect(() => {
+    const nodes = [cursorRef.current, cursorNode].filter((id): id is string => !!id && graph.hasNode(id));
+    cursorRef.current = cursorNode;
+    if (nodes.length > 0) sigma.refresh({ partialGraph: { nodes }, schedule: true });
+    const display = cursorNode ? sigma.getNodeDisplayData(cursorNode) : undefined;
+    if (!cursorNode || !display || display.hidden) return;
+    const { x, y } = sigma.framedGraphToViewport(display);
+    const { width, height } = sigma.getDimensions();
+    const margin = Math.min(width, height) * CURSOR_EDGE_MARGIN;
+    if (x < margin || y < margin || x > width - margin || y > height - margin) handleFocus(cursorNode);
+  }, [cursorNode, graph, sigma, handleFocus]);
+
+  useEffect(() => {
+    const container = sigma.getContainer();
+    const isActive = (id: string | null): id is string => !!id && graph.hasNode(id) && activeNodesRef.current.has(id);
+    const neighborsOf = (id: string) => visibleNeighbors(graph, id, (n) => activeNodesRef.current.has(n), minStrength);
+    const titleOf = (id: string) => getDisplayTitle(graph.getNodeAttributes(id) as RawNode);
+    const screenPoints = (ids: Iterable<string>): ScreenPoint[] =>
+      Array.from(ids).flatMap((id) => {
+        const display = sigma.getNodeDisplayData(id);
+        return display && !display.hidden ? [{ id, ...sigma.framedGraphToViewport(display) }] : [];
+      });
+
+    const moveTo = (id: string, detail?: string) => {
+      onMoveCursor(id);
+      const states = [selectedNodes.has(id) && 'pick', dislikedNodes.has(id) && 'disliked'];
+      setCursorMessage([titleOf(id), ...states, `${neighborsOf(id).length} linked titles shown`, detail].filter(Boolean).join(', '));
+    };
+
+    const start = () => {
+      tabHubRef.current = null;
+      const id = pickStartNode(graph, activeNodesRef.current, selectedNodes, relevanceRef.current);
+      if (id) moveTo(id);
+      else setCursorMessage('No titles shown');
+    };
+
+    const step = (cursor: string, direction: NavDirection) => {
+      tabHubRef.current = null;
+      const [from] = screenPoints([cursor]);
+      if (!from) return;
+      const linked = pickInDirection(from, screenPoints(neighborsOf(cursor).map((n) => n.id)), direction);
+      // Nothing linked that way: jump to the nearest title so no part of the map is out of reach
+      const nearest = linked ? null : pickInDirection(from, screenPoints(activeNodesRef.current), direction);
+      if (linked) moveTo(linked);
+      else if (nearest) moveTo(nearest, 'not linked');
+      else setCursorMessage(`No titles further ${direction}`);
+    };
+
+    // Tab walks the hub's neighbors, strongest first. Stepping past either end lets focus leave the graph.
+    const cycle = (cursor: string, backward: boolean): boolean => {
+      let hub = tabHubRef.current;
+      let ring = isActive(hub) ? neighborsOf(hub) : [];
+      if (!isActive(hub) || (cursor !== hub && !ring.some((n) => n.id === cursor))) {
+        hub = cursor;
+        ring = neighborsOf(hub);
+      }
+      const index = cursor === hub ? -1 : ring.findIndex((n) => n.id === cursor);
+      const next = index + (backward ? -1 : 1);
+      if (next < -1 || next >= ring.length) {
+        tabHubRef.current = null;
+        return false;
+      }
+      tabHubRef.current = hub;
+      if (next < 0) moveTo(hub);
+      else moveTo(ring[next].id, `${next + 1} of ${ring.length} linked to ${titleOf(hub)}`);
+      return true;
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const cursor = isActive(cursorNode) ? cursorNode : null;
+      const direction = ARROW_DIRECTIONS[e.key];
+      if (direction) {
+        e.preventDefault();
+        if (cursor) step(cursor, direction);
+        else start();
+      } else if (e.key === 'Tab') {
+        if (cursor) {
+          if (cycle(cursor, e.shiftKey)) e.preventDefault();
+        } else if (!e.shiftKey) {
+          e.preventDefault();
+          start();
+        }
+      } else if ((e.key === 'Enter' || e.key === ' ') && cursor) {
+        e.preventDefault();
+        if (dislikedNodes.has(cursor)) {
+          onToggleDislike(cursor);
+          setCursorMessage(`${titleOf(cursor)} is no longer disliked`);
+        } else {
+          onToggleNode(cursor);
+          setCursorMessage(`${selectedNodes.has(cursor) ? 'Removed from' : 'Added to'} picks: ${titleOf(cursor)}`);
+        }
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        tabHubRef.current = null;
+        onClearSelection();
+        onMoveCursor(null);
+        setCursorMessage('Selection cleared');
+      }
+    };
+
+    // Clicks also focus the canvas, so only keyboard focus places the cursor
+    const handleFocusIn = () => {
+      if (!cursorNode && container.matches(':focus-visible')) start();
+    };
+
+    // The outline view moves the same cursor, so it stays while focus is there
+    const handleFocusOut = (e: FocusEvent) => {
+      const next = e.relatedTarget instanceof Element ? e.relatedTarget : null;
+      if (!next?.closest('[data-graph-outline]')) onMoveCursor(null);
+    };
+
+    container.addEventListener('keydown', handleKeyDown);
+    container.addEventListener('focus', handleFocusIn);
+    container.addEventListener('blur', handleFocusOut);
+    return () => {
+      container.removeEventListener('keydown', handleKeyDown);
+      container.removeEventListener('focus', handleFocusIn);
+      container.removeEventListener('blur', handleFocusOut);
+    };
+  }, [sigma, graph, cursorNode, selectedNodes, dislikedNodes, minStrength, onMoveCursor, onToggleNode, onToggleDislike, onClearSelection]);
+
 
   useEffect(() => {
     const isNodeValid = (nodeId: string): boolean => {
         if (!graph.hasNode(nodeId)) return false;
         const attrs = graph.getNodeAttributes(nodeId) as RawNode;
-        if ((attrs.score || 0) < minScore) return false;
-        if (isAwardWinningOnly) {
-           if (!attrs.genres || !attrs.genres.includes('Award Winning')) return false;
-        } else {
-            if (selectedGenres.size > 0) {
-               const hasGenre = attrs.genres && attrs.genres.some(g => selectedGenres.has(g));
-               if (!hasGenre) return false;
-            }
+        const nodeCommunity = graph.getNodeAttribute(nodeId, 'community') as number | undefined;
+        if (community !== null && nodeCommunity !== community) return false;
+        if (queryFilter) {
+            return queryFilter({
+                ...attrs,
+                degree: graph.degree(nodeId),
+                community: nodeCommunity,
+                status: readingList.get(nodeId)?.status,
+            });
         }
-        return true;
+        // Unrated titles have nothing to compare, so the rating filters leave them alone
+        if (attrs.score !== null && attrs.score < minScore) return false;
+        if (attrs.scored_by !== null && attrs.scored_by < minRaters) return false;
+        if (isAwardWinningOnly && !(attrs.genres || []).includes('Award Winning')) return false;
+        return matchesGenreFilter(attrs.genres, genreFilter);
     };
 
     const validEdges = new Set<string>();
@@ -367,152 +749,373 @@ const InteractiveGraph: React.FC<InteractiveGraphProps> = ({
     });
 
     const activeNodes = new Set<string>();
+    const relevance = new Map<string, number>();
     const selectedArray = Array.from(selectedNodes);
-
-    if (selectedArray.length === 0) {
+    // Edge -> index of the best path using it
+    const pathEdges = new Map<string, number>();
+    const pathNodes = new Map<string, number>();
+    // Distance from the picks (1 = direct recommendation) and the edges that reached deeper hops
+    const hops = new Map<string, number>();
+    const egoEdges = new Set<string>();
+
+    if (bridge) {
+        const paths = findBridgePaths(graph, bridge.source, bridge.target, {
+            k: DEFAULT_BRIDGE_PATHS,
+            isEdgeValid: (edge) => validEdges.has(edge),
+            isNodeValid,
+        });
+        onUpdateBridgePaths(paths);
+        [bridge.source, bridge.target].forEach(id => { if (graph.hasNode(id)) activeNodes.add(id); });
+        // Active path first so its edges win over alternatives that share them
+        const order = paths.map((_p, i) => i).sort((a, b) => (a === activeBridgePath ? -1 : b === activeBridgePath ? 1 : a - b));
+        order.forEach(i => {
+            paths[i].nodes.forEach(id => { activeNodes.add(id); if (!pathNodes.has(id)) pathNodes.set(id, i); });
+            paths[i].edges.forEach(edge => { if (!pathEdges.has(edge)) pathEdges.set(edge, i); });
+        });
+    } else if (selectedArray.length === 0) {
         graph.forEachNode((node) => {
             if (nodesWithValidEdges.has(node) && isNodeValid(node)) {
                 activeNodes.add(node);
             }
         });
     } else {
-        const firstId = selectedArray[0];
-        if (graph.hasNode(firstId)) {
-            let candidates = new Set<string>();
-            graph.forEachEdge(firstId, (edge, attrs, source, target) => {
-                const neighbor = source === firstId ? target : source;
-                if (validEdges.has(edge) && isNodeValid(neighbor)) {
-                    candidates.add(neighbor);
-                }
+        const ranked = rankRecommendations(graph, selectedArray, {
+            mode: rankingMode,
+            minSeedLinks,
+            isEdgeValid: (edge) => validEdges.has(edge),
+            isNodeValid,
+            avoid: Array.from(dislikedNodes),
+        });
+        selectedArray.forEach(id => { if (graph.hasNode(id)) activeNodes.add(id); });
+        ranked.forEach((rec, id) => {
+            activeNodes.add(id);
+            relevance.set(id, rec.score);
+            hops.set(id, 1);
+        });
+        if (egoDepth > 1) {
+            const expanded = expandEgoNetwork(graph, new Map(relevance), {
+                depth: egoDepth,
+                perHopCap: DEFAULT_EGO_HOP_CAP,
+                isEdgeValid: (edge) => validEdges.has(edge),
+                isNodeValid,
+                exclude: new Set([...selectedArray, ...dislikedNodes]),
+            });
+            expanded.forEach(({ hop, score, edge }, id) => {
+                activeNodes.add(id);
+                relevance.set(id, score * EGO_RELEVANCE_DECAY ** (hop - 1));
+                hops.set(id, hop);
+                egoEdges.add(edge);
             });
-            for (let i = 1; i < selectedArray.length; i++) {
-                const nextId = selectedArray[i];
-                if (graph.hasNode(nextId)) {
-                    const nextNeighbors = new Set<string>();
-                    graph.forEachEdge(nextId, (edge, attrs, source, target) => {
-                        const neighbor = source === nextId ? target : source;
-                        if (validEdges.has(edge) && isNodeValid(neighbor)) {
-                            nextNeighbors.add(neighbor);
-                        }
-                    });
-                    candidates = new Set([...candidates].filter(x => nextNeighbors.has(x)));
-                }
-            }
-            selectedArray.forEach(id => activeNodes.add(id));
-            candidates.forEach(id => activeNodes.add(id));
         }
     }
 
-    onUpdateVisibleNodes(activeNodes);
+    // Disliked titles stay on screen so they can be un-disliked
+    dislikedNodes.forEach(id => { if (graph.hasNode(id)) activeNodes.add(id); });
 
-    sigma.setSetting('nodeReducer', (node, data) => {
+    activeNodesRef.current = activeNodes;
+    relevanceRef.current = relevance;
+    onUpdateVisibleNodes(activeNodes);
+    onUpdateRelevance(relevance);
+    onUpdateHops(hops);
+    onUpdateExplanation(explainTarget && !bridge && graph.hasNode(explainTarget)
+      ? explainRecommendation(graph, explainTarget, selectedArray, { isEdgeValid: (edge) => validEdges.has(edge), isNodeValid })
+      : null);
+    onUpdateComparison(compareNodes.length > 1
+      ? compareNeighborhoods(graph, compareNodes, { isEdgeValid: (edge) => validEdges.has(edge), isNodeValid, exclude: dislikedNodes })
+      : null);
+
+    const styleNode = (node: string, attrs: Attributes): Attributes => {
       if (!activeNodes.has(node)) {
-          return { ...data, hidden: true, label: '' };
+          return { ...attrs, hidden: true, label: '' };
+      }
+      const baseColor = colorMode === 'community' ? getCommunityColor(graph.getNodeAttribute(node, 'community')) : attrs.color;
+      const hop = hops.get(node) ?? 1;
+      const data: typeof attrs = { ...attrs, color: fadeColor(baseColor, (hop - 1) * EGO_FADE_STEP) };
+      if (bridge) {
+         if (node === bridge.source || node === bridge.target) {
+           return { ...data, zIndex: 20, hidden: false, borderColor: '#d97706', borderSize: 3, forceLabel: true };
+         }
+         if (pathNodes.get(node) === activeBridgePath) {
+           return { ...data, zIndex: 18, hidden: false, borderColor: '#f59e0b', borderSize: 2, forceLabel: true };
+         }
       }
       if (selectedNodes.has(node)) {
          return { ...data, zIndex: 20, hidden: false, borderColor: '#333', borderSize: 3, label: data.label };
       }
+      if (node === explainTarget) {
+         return { ...data, zIndex: 19, hidden: false, borderColor: '#8b5cf6', borderSize: 3, forceLabel: true };
+      }
+      if (dislikedNodes.has(node)) {
+         return { ...data, zIndex: 15, hidden: false, color: '#cbd5e1', borderColor: '#ef4444', borderSize: 3, label: `👎 ${data.label}` };
+      }
+      const reading = readingList.get(node);
+      if (reading) {
+         return {
+           ...data,
+           zIndex: 12,
+           hidden: false,
+           color: reading.status === 'dropped' ? '#e2e8f0' : data.color,
+           borderColor: READING_BORDER_COLORS[reading.status],
+           borderSize: 2,
+           label: `${READING_ICONS[reading.status]} ${data.label}`,
+         };
+      }
       return { ...data, borderColor: 'transparent', borderSize: 0, zIndex: 10, hidden: false, label: data.label };
+    };
+
+    // The keyboard cursor is drawn like a hovered node on top of whatever styling the title has
+    sigma.setSetting('nodeReducer', (node, attrs) => {
+      const data = styleNode(node, attrs);
+      return node === cursorRef.current && !data.hidden ? { ...data, highlighted: true, forceLabel: true, zIndex: 30 } : data;
     });
 
     sigma.setSetting('edgeReducer', (edge, data) => {
+      if (bridge) {
+         const path = pathEdges.get(edge);
+         if (path === undefined) return { ...data, hidden: true };
+         return path === activeBridgePath
+           ? { ...data, hidden: false, color: '#f59e0b', zIndex: 20, size: 4 }
+           : { ...data, hidden: false, color: '#fde68a', zIndex: 10, size: 2 };
+      }
       if (!validEdges.has(edge)) return { ...data, hidden: true };
+      if (highlightedEdges.has(edge)) return { ...data, hidden: false, color: '#8b5cf6', zIndex: 25, size: 4 };
       const ends = graph.extremities(edge);
+      // Beyond the first hop only the edge that reached each node is drawn, so the view stays a readable tree
+      const edgeHop = Math.max(hops.get(ends[0]) ?? 0, hops.get(ends[1]) ?? 0);
+      if (edgeHop > 1) {
+         return egoEdges.has(edge)
+           ? { ...data, hidden: false, color: fadeColor('#94a3b8', (edgeHop - 1) * EGO_FADE_STEP), zIndex: 5, size: 1 }
+           : { ...data, hidden: true };
+      }
       if (activeNodes.has(ends[0]) && activeNodes.has(ends[1])) {
          if (selectedNodes.has(ends[0]) || selectedNodes.has(ends[1])) {
              return { ...data, hidden: false, color: '#64748b', zIndex: 10, size: 2 };
          }
+         if (dislikedNodes.has(ends[0]) || dislikedNodes.has(ends[1])) {
+             return { ...data, hidden: false, color: '#fecaca', zIndex: 5, size: 1 };
+         }
          return { ...data, hidden: false, color: '#e2e8f0', zIndex: 0, size: 0.5 };
       }
       return { ...data, hidden: true };
     });
-  }, [selectedNodes, graph, sigma, minStrength, minScore, selectedGenres, isAwardWinningOnly, onUpdateVisibleNodes]); 
+  }, [selectedNodes, dislikedNodes, readingList, graph, sigma, minStrength, minScore, minRaters, genreFilter, isAwardWinningOnly, queryFilter, rankingMode, minSeedLinks, egoDepth, colorMode, community, bridge, activeBridgePath, explainTarget, highlightedEdges, compareNodes, graphRevision, onUpdateVisibleNodes, onUpdateRelevance, onUpdateHops, onUpdateBridgePaths, onUpdateExplanation, onUpdateComparison]); 
 
-  return null;
+  return (
+    <>
+      <LayoutControls isRunning={layout.isRunning} onPause={layout.pause} onResume={layout.resume} onRerun={layout.rerun} />
+      <p className="sr-only" aria-live="polite">{cursorMessage}</p>
+    </>
+  );
+};
+
+// Adds titles and edges that are not in the graph yet and returns the new titles.
+// Titles without a single edge are left out until a later tier connects them.
+const addGraphData = (graph: Graph, { nodes, edges }: GraphData): string[] => {
+  const added: string[] = [];
+  nodes.forEach((node) => {
+    if (graph.hasNode(node.id)) return;
+    graph.addNode(node.id, {
+      ...node,
+      x: node.x ?? 0,
+      y: node.y ?? 0,
+      size: 3, 
+      color: getGenreColor(node.genres),
+      label: getDisplayTitle(node),
+    });
+    added.push(node.id);
+  });
+
+  edges.forEach((edge) => {
+    if (graph.hasNode(edge.source) && graph.hasNode(edge.target)) {
+      const edgeId = `${edge.source}_${edge.target}`;
+      if (!graph.hasEdge(edge.source, edge.target)) {
+          graph.addEdge(edge.source, edge.target, {
+            ...edge,
+            id: edgeId,
+            type: 'line',
+            color: '#e2e8f0', 
+            size: 1, 
+            zIndex: 0,
+          });
+      }
+    }
+  });
+
+  return added.filter((node) => {
+    if (graph.degree(node) > 0) return true;
+    graph.dropNode(node);
+    return false;
+  });
+};
+
+type GraphLoaderProps = {
+  // First (most important) tier; a new value rebuilds the graph
+  data: GraphData | null;
+  // Later tiers in load order, merged into the live graph as they arrive
+  extraTiers: GraphData[];
+  strengthMethod: StrengthMethod;
+  onStrengthScale: (scale: StrengthScale) => void;
+  onCommunities: (communities: Community[], assignments: Map<string, number>) => void;
+};
+
+// Communities are detected on the default weights, like the layout
+// With `keepIds`, communities found after a tier merge keep the ids already on the nodes
+const assignCommunities = (graph: Graph, onCommunities: GraphLoaderProps['onCommunities'], keepIds = false) => {
+  const previous = new Map<string, number>();
+  if (keepIds) {
+    graph.forEachNode((node, attrs) => {
+      if (typeof attrs.community === 'number') previous.set(node, attrs.community);
+    });
+  }
+  const { assignments, communities } = detectCommunities(graph, 1, previous);
+  assignments.forEach((c, node) => graph.setNodeAttribute(node, 'community', c));
+  onCommunities(communities, assignments);
 };
 
-const GraphLoader: React.FC<{ data: GraphData | null; setNodeList: (n: RawNode[]) => void }> = ({ data, setNodeList }) => {
+const GraphLoader: React.FC<GraphLoaderProps> = ({ data, extraTiers, strengthMethod, onStrengthScale, onCommunities }) => {
   const loadGraph = useLoadGraph();
+  const sigma = useSigma();
+  const mergedTiersRef = useRef(0);
 
   useEffect(() => {
     if (!data) return;
     const graph = new Graph();
-    const loadedNodes: RawNode[] = [];
-
-    const allGenres = Array.from(new Set(data.nodes.flatMap(n => n.genres))).sort();
-    const angleStep = (Math.PI * 2) / (allGenres.length || 1);
-
-    data.nodes.forEach((node) => {
-      if (node.score < LOAD_MIN_SCORE) return;
-      if (!graph.hasNode(node.id)) {
-        const primaryGenre = node.genres[0] || 'Default';
-        const genreIndex = allGenres.indexOf(primaryGenre);
-        const baseAngle = genreIndex >= 0 ? genreIndex * angleStep : 0;
-        const jitter = (Math.random() - 0.5) * 1.0; 
-        const angle = baseAngle + jitter;
-        const radius = 300 + Math.random() * 800; 
-
-        graph.addNode(node.id, {
-          ...node,
-          x: Math.cos(angle) * radius,
-          y: Math.sin(angle) * radius,
-          size: 3, 
-          color: getGenreColor(node.genres),
-          label: getDisplayTitle(node),
-        });
-        loadedNodes.push(node);
-      }
-    });
-    setNodeList(loadedNodes);
-
-    data.edges.forEach((edge) => {
-      if (graph.hasNode(edge.source) && graph.hasNode(edge.target)) {
-        const edgeId = `${edge.source}_${edge.target}`;
-        if (!graph.hasEdge(edge.source, edge.target)) {
-            graph.addEdge(edge.source, edge.target, {
-              ...edge,
-              id: edgeId,
-              weight: edge.strength,
-              type: 'line',
-              color: '#e2e8f0', 
-              size: 1, 
-              zIndex: 0,
-            });
-        }
-      }
-    });
 
-    graph.forEachNode((node) => {
-        if (graph.degree(node) === 0) graph.dropNode(node);
-    });
+    // Baked coordinates keep the map where people remember it; otherwise lay it out live
+    const useStoredPositions = hasStoredPositions(data.nodes);
+    addGraphData(graph, data);
 
-    const degrees = graph.nodes().map((node) => graph.degree(node));
-    const minDegree = Math.min(...degrees);
-    const maxDegree = Math.max(...degrees);
-
-    graph.forEachNode((node) => {
-      const degree = graph.degree(node);
-      const ratio = (degree - minDegree) / (maxDegree - minDegree || 1);
-      const size = 3 + (ratio * 12); 
-      graph.setNodeAttribute(node, 'size', size);
-      graph.setNodeAttribute(node, 'importance', ratio);
-    });
+    // Initial layout always uses the default weights so positions don't depend on the chosen method
+    normalizeEdgeStrengths(graph, DEFAULT_STRENGTH_METHOD);
+    applyDegreeSizes(graph);
+    assignCommunities(graph, onCommunities);
 
-    if (graph.order > 0) {
+    if (!useStoredPositions && graph.order > 0) {
+      seedGenrePositions(graph);
       forceAtlas2.assign(graph, {
-        iterations: 50, 
-        settings: {
-          adjustSizes: true, 
-          gravity: 0.5,
-          scalingRatio: 60,
-          slowDown: 10,
-          barnesHutOptimize: true,
-        }
+        iterations: INITIAL_LAYOUT_ITERATIONS,
+        settings: INITIAL_LAYOUT_SETTINGS,
       });
     }
 
+    mergedTiersRef.current = 0;
     loadGraph(graph);
-  }, [data, loadGraph, setNodeList]);
+  }, [data, loadGraph, onCommunities]);
+
+  // Stream later tiers into the live graph, next to the titles they are tied to
+  useEffect(() => {
+    if (!data || extraTiers.length <= mergedTiersRef.current) return;
+    const graph = sigma.getGraph();
+    extraTiers.slice(mergedTiersRef.current).forEach((tier) => {
+      const added = addGraphData(graph, tier);
+      if (!hasStoredPositions(tier.nodes)) placeNearNeighbors(graph, added);
+    });
+    mergedTiersRef.current = extraTiers.length;
+
+    normalizeEdgeStrengths(graph, DEFAULT_STRENGTH_METHOD);
+    applyDegreeSizes(graph);
+    assignCommunities(graph, onCommunities, true);
+  }, [data, extraTiers, sigma, onCommunities]);
+
+  // Re-weight the loaded graph in place whenever the method, the data or the loaded tiers change
+  useEffect(() => {
+    if (!data) return;
+    onStrengthScale(normalizeEdgeStrengths(sigma.getGraph(), strengthMethod));
+  }, [data, extraTiers, sigma, strengthMethod, onStrengthScale]);
+
+  return null;
+};
+
+// Community names floating over the middle of each community's visible nodes
+const CLUSTER_LABEL_MIN_NODES = 5;
+
+type ClusterLabelPosition = { id: number; x: number; y: number };
+
+const ClusterLabels: React.FC<{
+  communities: Community[];
+  activeCommunity: number | null;
+  onSelect: (id: number | null) => void;
+}> = ({ communities, activeCommunity, onSelect }) => {
+  const sigma = useSigma();
+  const [positions, setPositions] = useState<ClusterLabelPosition[]>([]);
+
+  useEffect(() => {
+    const update = () => {
+      const graph = sigma.getGraph();
+      const sums = new Map<number, { x: number; y: number; count: number }>();
+      graph.forEachNode((node, attrs) => {
+        const display = sigma.getNodeDisplayData(node);
+        if (!display || display.hidden || attrs.community === undefined) return;
+        const sum = sums.get(attrs.community) ?? { x: 0, y: 0, count: 0 };
+        sum.x += display.x;
+        sum.y += display.y;
+        sum.count++;
+        sums.set(attrs.community, sum);
+      });
+      setPositions(
+        Array.from(sums.entries())
+          .filter(([, sum]) => sum.count >= CLUSTER_LABEL_MIN_NODES)
+          .map(([id, sum]) => ({ id, ...sigma.framedGraphToViewport({ x: sum.x / sum.count, y: sum.y / sum.count }) }))
+      );
+    };
+    sigma.on('afterRender', update);
+    sigma.scheduleRefresh();
+    return () => {
+      sigma.off('afterRender', update);
+    };
+  }, [sigma]);
+
+  return (
+    <div className="absolute inset-0 pointer-events-none z-[5] overflow-hidden">
+      {positions.map(({ id, x, y }) => {
+        const community = communities.find((c) => c.id === id);
+        if (!community) return null;
+        return (
+          <button
+            key={id}
+            onClick={() => onSelect(activeCommunity === id ? null : id)}
+            className="absolute -translate-x-1/2 -translate-y-1/2 pointer-events-auto bg-white/80 backdrop-blur px-2 py-0.5 rounded-full shadow-sm border text-[11px] font-bold whitespace-nowrap hover:bg-white transition-colors"
+            style={{ left: x, top: y, color: community.color, borderColor: community.color }}
+            title={activeCommunity === id ? 'Show all communities' : `Only show this community (${community.size} titles)`}
+          >
+            {community.label}
+            {community.topGenres.length > 0 && community.topTitles[0] && (
+              <span className="ml-1 font-normal text-gray-500">{community.topTitles[0]}</span>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+// Restores a camera from the URL and reports user moves (debounced)
+const CAMERA_REPORT_DELAY_MS = 250;
+
+const CameraSync: React.FC<{ view: CameraView | null; onChange: (view: CameraView) => void }> = ({ view, onChange }) => {
+  const sigma = useSigma();
+
+  useEffect(() => {
+    if (view) sigma.getCamera().setState(view);
+  }, [sigma, view]);
+
+  useEffect(() => {
+    const camera = sigma.getCamera();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const handleUpdate = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        const { x, y, ratio } = camera.getState();
+        onChange({ x, y, ratio });
+      }, CAMERA_REPORT_DELAY_MS);
+    };
+    camera.on('updated', handleUpdate);
+    return () => {
+      clearTimeout(timer);
+      camera.removeListener('updated', handleUpdate);
+    };
+  }, [sigma, onChange]);
+
   return null;
 };
 
@@ -568,6 +1171,35 @@ const FitViewButton: React.FC = () => {
   );
 };
 
+// Full card while the first tier loads, a small pill while later tiers stream in
+const LoadingIndicator: React.FC<{ progress: LoadProgress; isInitial: boolean }> = ({ progress, isInitial }) => {
+  const percent = Math.round(progress.fraction * 100);
+  const bar = (
+    <div className="h-1.5 w-full bg-gray-200 rounded-full overflow-hidden">
+      <div className="h-full bg-blue-500 transition-[width] duration-200" style={{ width: `${percent}%` }} />
+    </div>
+  );
+  if (isInitial) {
+    return (
+      <div className="absolute inset-0 z-20 flex items-center justify-center pointer-events-none">
+        <div className="bg-white/95 rounded-xl shadow-lg px-6 py-4 w-64 flex flex-col gap-2">
+          <div className="flex justify-between text-xs text-gray-600">
+            <span className="font-bold">{progress.label}…</span>
+            <span>{percent}%</span>
+          </div>
+          {bar}
+        </div>
+      </div>
+    );
+  }
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 bg-white/95 rounded-full shadow-md px-4 py-1.5 w-56 flex flex-col gap-1 pointer-events-none">
+      <span className="text-[10px] text-gray-600 text-center">{progress.label}… {percent}%</span>
+      {bar}
+    </div>
+  );
+};
+
 const ResetSelectionButton: React.FC<{ onReset: () => void; isVisible: boolean }> = ({ onReset, isVisible }) => {
   if (!isVisible) return null;
   return (
@@ -601,36 +1233,106 @@ const DiscoveryButton: React.FC<{ onClick: () => void }> = ({ onClick }) => {
 const GraphView: React.FC<GraphViewProps> = ({ 
   selectedNodes, 
   onToggleNode, 
+  dislikedNodes,
+  onToggleDislike,
   onClearSelection,
+  readingList,
+  onSetReadingStatus,
+  onImportReadingEntries,
+  onNodesLoaded,
+  filters,
+  onFiltersChange,
+  cameraView,
+  onCameraChange,
+  inspectedNode,
+  onInspectNode,
+  onExplanation,
+  highlightedEdges,
   isDiscoveryOpen,
   onDiscoveryClose,
   onDiscoveryOpen // 受け取り
 }) => {
+  const [dataset, setDataset] = useState<ProgressiveDataset | null>(null);
   const [data, setData] = useState<GraphData | null>(null);
+  const [extraTiers, setExtraTiers] = useState<GraphData[]>([]);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
+  // Tiers are fetched in order: the next one to load, and the highest one asked for so far
+  const nextTierRef = useRef(1);
+  const wantedTierRef = useRef(0);
+  const isLoadingTierRef = useRef(false);
   const [nodeList, setNodeList] = useState<SearchableNode[]>([]);
   const [tooltip, setTooltip] = useState<TooltipState>(null);
+  const [preview, setPreview] = useState<TooltipState>(null);
   
-  const [minStrength, setMinStrength] = useState<number>(INITIAL_MIN_STRENGTH);
-  const [minScore, setMinScore] = useState<number>(INITIAL_DISPLAY_SCORE);
+  const {
+    minStrength,
+    strengthMethod,
+    minScore,
+    minRaters,
+    rankingMode,
+    minSeedLinks,
+    egoDepth,
+    genreFilter,
+    isAwardWinningOnly,
+    colorMode,
+    community,
+    query,
+  } = filters;
+  const parsedQuery = useMemo(() => checkQuery(query), [query]);
+  const [strengthScale, setStrengthScale] = useState<StrengthScale>(DEFAULT_STRENGTH_SCALE);
   const [visibleNodeIds, setVisibleNodeIds] = useState<Set<string>>(new Set());
+  const [relevance, setRelevance] = useState<Map<string, number>>(new Map());
+  const [communities, setCommunities] = useState<Community[]>([]);
+  const [communityOf, setCommunityOf] = useState<Map<string, number>>(new Map());
+  const handleCommunities = useCallback((list: Community[], assignments: Map<string, number>) => {
+    setCommunities(list);
+    setCommunityOf(assignments);
+  }, []);
+  // Edge weights change in place, so the filters need a revision to notice a new method
+  const [graphRevision, setGraphRevision] = useState(0);
+  const handleStrengthScale = useCallback((scale: StrengthScale) => {
+    setStrengthScale(scale);
+    setGraphRevision((revision) => revision + 1);
+  }, []);
+  const [hops, setHops] = useState<Map<string, number>>(new Map());
+  // Title under the keyboard cursor, moved from the canvas or the list view
+  const [cursorNode, setCursorNode] = useState<string | null>(null);
+
+  const [isBridgeMode, setIsBridgeMode] = useState(false);
+  const [bridgeSource, setBridgeSource] = useState<string | null>(null);
+  const [bridgeTarget, setBridgeTarget] = useState<string | null>(null);
+  const [bridgePaths, setBridgePaths] = useState<BridgePath[]>([]);
+  const [activeBridgePath, setActiveBridgePath] = useState(0);
+  const bridge = useMemo(
+    () => (isBridgeMode && bridgeSource && bridgeTarget ? { source: bridgeSource, target: bridgeTarget } : null),
+    [isBridgeMode, bridgeSource, bridgeTarget]
+  );
+
+  // Picks in the comparison view; null while it is closed
+  const [compareIds, setCompareIds] = useState<string[] | null>(null);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const activeCompareIds = useMemo(
+    () => (compareIds || []).filter(id => selectedNodes.has(id)),
+    [compareIds, selectedNodes]
+  );
 
   const [allGenres, setAllGenres] = useState<string[]>([]);
-  const [selectedGenres, setSelectedGenres] = useState<Set<string>>(new Set());
-  
-  const [isAwardWinningOnly, setIsAwardWinningOnly] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   const focusFnRef = useRef<((nodeId: string) => void) | null>(null);
 
   useEffect(() => {
     const fetchData = async () => {
+        const version = resolveDatasetVersion(
+          new URLSearchParams(window.location.search).get(DATASET_QUERY_PARAM)
+        );
         try {
-            const res = await fetch('/graph-data.json');
-            if (!res.ok) return;
-            const json = await res.json();
-            setData(json);
+            const progressive = await loadProgressiveDataset(version, setLoadProgress);
+            setNodeList(progressive.nodes);
 
             const genreSet = new Set<string>();
-            json.nodes.forEach((n: RawNode) => {
+            progressive.nodes.forEach((n: RawNode) => {
                n.genres.forEach(g => {
                    if (g !== 'Award Winning') {
                        genreSet.add(g);
@@ -638,11 +1340,67 @@ const GraphView: React.FC<GraphViewProps> = ({
                });
             });
             setAllGenres(Array.from(genreSet).sort());
-        } catch (e) { console.error(e); }
+
+            const core = await progressive.loadTier(0, (fraction) => setLoadProgress({ label: 'Loading connections', fraction }));
+            setDataset(progressive);
+            setData(core);
+            setLoadProgress(null);
+        } catch (e) {
+            console.error(e);
+            setLoadError(e instanceof DatasetError ? e.message : `Failed to load dataset "${version}"`);
+            setLoadProgress(null);
+        }
     };
     fetchData();
   }, []);
 
+  // Fetches the remaining tiers one after another up to `tier`; calls while loading only raise the target
+  const requestTier = useCallback((tier: number) => {
+    if (!dataset) return;
+    wantedTierRef.current = Math.max(wantedTierRef.current, Math.min(tier, dataset.tierCount - 1));
+    if (isLoadingTierRef.current || nextTierRef.current > wantedTierRef.current) return;
+    isLoadingTierRef.current = true;
+
+    const loadTiers = async () => {
+      try {
+        while (nextTierRef.current <= wantedTierRef.current) {
+          const next = nextTierRef.current;
+          const label = `Loading more titles (${next}/${dataset.tierCount - 1})`;
+          const chunk = await dataset.loadTier(next, (fraction) => setLoadProgress({ label, fraction }));
+          nextTierRef.current = next + 1;
+          setExtraTiers((prev) => [...prev, chunk]);
+        }
+      } catch (e) {
+        console.error(e);
+        setLoadError(e instanceof DatasetError ? e.message : 'Failed to load more titles');
+      } finally {
+        isLoadingTierRef.current = false;
+        setLoadProgress(null);
+      }
+    };
+    loadTiers();
+  }, [dataset]);
+
+  // Titles outside the loaded tiers come in once they are picked, or when the filters reach for them
+  useEffect(() => {
+    if (!dataset) return;
+    let tier = 0;
+    [...selectedNodes, ...dislikedNodes].forEach((id) => { tier = Math.max(tier, dataset.tierOf.get(id) ?? 0); });
+    if (minScore < LOAD_MIN_SCORE || parsedQuery.predicate) tier = dataset.tierCount - 1;
+    requestTier(tier);
+  }, [dataset, selectedNodes, dislikedNodes, minScore, parsedQuery, requestTier]);
+
+  const loadedEdges = useMemo(
+    () => (data ? [data.edges, ...extraTiers.map((tier) => tier.edges)].flat() : EMPTY_EDGES),
+    [data, extraTiers]
+  );
+
+  // ...or when the user zooms in far enough
+  const handleCameraChange = useCallback((view: CameraView) => {
+    onCameraChange(view);
+    requestTier(tierForZoom(view.ratio));
+  }, [onCameraChange, requestTier]);
+
   const handleGraphToggle = (nodeId: string) => {
       const target = nodeList.find(n => n.id === nodeId);
       if (target) {
@@ -651,21 +1409,32 @@ const GraphView: React.FC<GraphViewProps> = ({
       }
   };
 
-  const toggleGenreFilter = (genre: string) => {
-    setSelectedGenres(prev => {
-      const next = new Set(prev);
-      if (next.has(genre)) next.delete(genre);
-      else next.add(genre);
-      return next;
-    });
+  const handleGraphDislike = (nodeId: string) => {
+      const target = nodeList.find(n => n.id === nodeId);
+      if (target) {
+          onToggleDislike(convertToMangaNode(target as unknown as RawNode));
+      }
+  };
+
+  useEffect(() => {
+    onNodesLoaded(nodeList.map(n => convertToMangaNode(n as unknown as RawNode)));
+  }, [nodeList, onNodesLoaded]);
+
+  const changeGenreMode = (genre: string, mode: GenreMode | null) => {
+    onFiltersChange({ genreFilter: setGenreMode(genreFilter, genre, mode) });
   };
 
   const clearGenreFilter = () => {
-    setSelectedGenres(new Set());
+    onFiltersChange({ genreFilter: new Map() });
+  };
+
+  // Thresholds aren't comparable across methods, so start over from the broadest setting
+  const changeStrengthMethod = (method: StrengthMethod) => {
+    onFiltersChange({ strengthMethod: method, minStrength: DEFAULT_FILTERS.minStrength });
   };
 
   const toggleAwardWinningOnly = () => {
-      setIsAwardWinningOnly(prev => !prev);
+      onFiltersChange({ isAwardWinningOnly: !isAwardWinningOnly });
   };
 
   const handleDiscoveryComplete = (selectedIds: string[]) => {
@@ -681,6 +1450,39 @@ const GraphView: React.FC<GraphViewProps> = ({
     }, 50);
   };
 
+  const setBridgeEndpoint = (end: 'source' | 'target', nodeId: string | null) => {
+    if (end === 'source') setBridgeSource(nodeId);
+    else setBridgeTarget(nodeId);
+    setBridgePaths([]);
+    setActiveBridgePath(0);
+  };
+
+  const toggleBridgeMode = () => {
+    setIsBridgeMode(!isBridgeMode);
+    setBridgePaths([]);
+    setActiveBridgePath(0);
+  };
+
+  const openCompare = () => {
+    setCompareIds(Array.from(selectedNodes).slice(-MAX_COMPARE));
+  };
+
+  const toggleCompare = (nodeId: string) => {
+    if (activeCompareIds.includes(nodeId)) setCompareIds(activeCompareIds.filter(id => id !== nodeId));
+    else if (activeCompareIds.length < MAX_COMPARE) setCompareIds([...activeCompareIds, nodeId]);
+  };
+
+  // Unlike Discovery Mode, an import adds to the current picks and leaves the dislikes alone
+  const handleMalImport = ({ seedIds, readingEntries }: MalImportPayload) => {
+    if (readingEntries.length > 0) onImportReadingEntries(readingEntries);
+    seedIds
+      .filter((id) => !selectedNodes.has(id) && !dislikedNodes.has(id))
+      .forEach((id) => {
+        const target = nodeList.find((n) => n.id === id);
+        if (target) onToggleNode(convertToMangaNode(target as unknown as RawNode));
+      });
+  };
+
   return (
     <div className="relative w-full select-none h-full [&_a]:hidden">
       <SigmaContainer
@@ -697,54 +1499,206 @@ const GraphView: React.FC<GraphViewProps> = ({
           maxCameraRatio: 4,
         }}
       >
-        <GraphLoader data={data} setNodeList={setNodeList as any} />
+        <GraphLoader
+          data={data}
+          extraTiers={extraTiers}
+          strengthMethod={strengthMethod}
+          onStrengthScale={handleStrengthScale}
+          onCommunities={handleCommunities}
+        />
         {data && (
           <><InteractiveGraph 
             selectedNodes={selectedNodes} 
             onToggleNode={(id) => handleGraphToggle(id)} 
+            dislikedNodes={dislikedNodes}
+            onToggleDislike={(id) => handleGraphDislike(id)}
+            readingList={readingList}
             setTooltip={setTooltip} 
+            setPreview={setPreview}
             onClearSelection={onClearSelection}
             minStrength={minStrength}
             minScore={minScore}
+            minRaters={minRaters}
             onUpdateVisibleNodes={setVisibleNodeIds}
+            onUpdateRelevance={setRelevance}
+            rankingMode={rankingMode}
+            minSeedLinks={minSeedLinks}
+            egoDepth={egoDepth}
+            onUpdateHops={setHops}
             assignFocusFn={(fn) => { focusFnRef.current = fn; }}
-            selectedGenres={selectedGenres}
+            genreFilter={genreFilter}
             isAwardWinningOnly={isAwardWinningOnly}
+            queryFilter={parsedQuery.predicate}
+            colorMode={colorMode}
+            community={community}
+            bridge={bridge}
+            activeBridgePath={activeBridgePath}
+            onUpdateBridgePaths={setBridgePaths}
+            explainTarget={inspectedNode}
+            onUpdateExplanation={onExplanation}
+            highlightedEdges={highlightedEdges}
+            compareNodes={activeCompareIds}
+            onUpdateComparison={setComparison}
+            autoLayout={!hasStoredPositions(data.nodes)}
+            graphRevision={graphRevision}
+            cursorNode={cursorNode}
+            onMoveCursor={setCursorNode}
           />
+          {colorMode === 'community' && (
+            <ClusterLabels
+              communities={communities}
+              activeCommunity={community}
+              onSelect={(id) => onFiltersChange({ community: id })}
+            />
+          )}
+          <CameraSync view={cameraView} onChange={handleCameraChange} />
           <FitViewButton />
-          <ResetSelectionButton onReset={onClearSelection} isVisible={selectedNodes.size > 0} />
+          <GraphOutline
+            visibleNodeIds={visibleNodeIds}
+            selectedNodes={selectedNodes}
+            dislikedNodes={dislikedNodes}
+            relevance={relevance}
+            minStrength={minStrength}
+            cursorNode={cursorNode}
+            onMoveCursor={setCursorNode}
+            onToggleNode={(id) => handleGraphToggle(id)}
+            onToggleDislike={(id) => handleGraphDislike(id)}
+            onClearSelection={onClearSelection}
+          />
+          <ExportMenu
+            visibleNodeIds={visibleNodeIds}
+            selectedNodes={selectedNodes}
+            dislikedNodes={dislikedNodes}
+            relevance={relevance}
+          />
+          <ResetSelectionButton onReset={onClearSelection} isVisible={selectedNodes.size > 0 || dislikedNodes.size > 0} />
           {/* ▼ 追加: Button render */}
           <DiscoveryButton onClick={onDiscoveryOpen} />
     </>
         )}
       </SigmaContainer>
       
-      <Tooltip tooltip={tooltip} />
+      {preview ? (
+        <Tooltip
+          tooltip={preview}
+          actions={
+            <>
+              <button
+                onClick={() => { handleGraphToggle(preview.node.id); setPreview(null); }}
+                className={`flex-1 text-xs font-bold px-3 py-2 rounded-lg transition-colors ${selectedNodes.has(preview.node.id) ? 'bg-gray-100 text-gray-600' : 'bg-blue-600 text-white'}`}
+              >
+                {selectedNodes.has(preview.node.id) ? 'Remove pick' : 'Add to picks'}
+              </button>
+              <button
+                onClick={() => { handleGraphDislike(preview.node.id); setPreview(null); }}
+                className="text-xs px-3 py-2 rounded-lg bg-gray-100 text-gray-600"
+                title={dislikedNodes.has(preview.node.id) ? 'Undo dislike' : 'Not for me'}
+              >
+                {dislikedNodes.has(preview.node.id) ? '↩︎' : '👎'}
+              </button>
+              <button
+                onClick={() => setPreview(null)}
+                className="text-xs px-3 py-2 rounded-lg bg-gray-100 text-gray-600"
+                aria-label="Close preview"
+              >
+                ✕
+              </button>
+            </>
+          }
+        />
+      ) : (
+        <Tooltip tooltip={tooltip} />
+      )}
+
+      {loadProgress && <LoadingIndicator progress={loadProgress} isInitial={!data} />}
+
+      {loadError && (
+        <div className="absolute inset-x-4 top-20 md:left-1/2 md:right-auto md:-translate-x-1/2 z-30 max-w-md bg-red-50 border border-red-200 text-red-700 text-xs rounded-lg shadow-md px-4 py-3">
+          <p className="font-bold mb-0.5">Dataset error</p>
+          <p>{loadError}</p>
+        </div>
+      )}
 
       <ControlPanel 
         nodeList={nodeList}
         selectedNodes={selectedNodes}
         visibleNodeIds={visibleNodeIds}
+        relevance={relevance}
+        rankingMode={rankingMode}
+        setRankingMode={(mode: RankingMode) => onFiltersChange({ rankingMode: mode })}
+        minSeedLinks={minSeedLinks}
+        setMinSeedLinks={(n) => onFiltersChange({ minSeedLinks: n })}
+        egoDepth={egoDepth}
+        setEgoDepth={(depth) => onFiltersChange({ egoDepth: depth })}
+        hops={hops}
         onToggleNode={(id) => handleGraphToggle(id)}
+        dislikedNodes={dislikedNodes}
+        onToggleDislike={(id) => handleGraphDislike(id)}
+        readingList={readingList}
+        onSetReadingStatus={onSetReadingStatus}
         onClearSelection={onClearSelection}
         minStrength={minStrength}
-        setMinStrength={setMinStrength}
+        setMinStrength={(v) => onFiltersChange({ minStrength: v })}
+        strengthMethod={strengthMethod}
+        setStrengthMethod={changeStrengthMethod}
+        strengthScale={strengthScale}
         minScore={minScore}
-        setMinScore={setMinScore}
+        setMinScore={(v) => onFiltersChange({ minScore: v })}
+        minRaters={minRaters}
+        setMinRaters={(v) => onFiltersChange({ minRaters: v })}
         visibleCount={visibleNodeIds.size}
         focusOnNode={(id) => focusFnRef.current?.(id)}
+        onInspectNode={onInspectNode}
+        onCompare={openCompare}
         allGenres={allGenres}
-        selectedGenres={selectedGenres}
-        toggleGenreFilter={toggleGenreFilter}
+        genreFilter={genreFilter}
+        setGenreMode={changeGenreMode}
         clearGenreFilter={clearGenreFilter}
         isAwardWinningOnly={isAwardWinningOnly}
         toggleAwardWinningOnly={toggleAwardWinningOnly}
+        query={query}
+        queryError={parsedQuery.error}
+        setQuery={(q) => onFiltersChange({ query: q })}
+        colorMode={colorMode}
+        setColorMode={(mode) => onFiltersChange({ colorMode: mode })}
+        communities={communities}
+        community={community}
+        setCommunity={(id) => onFiltersChange({ community: id })}
+        isBridgeMode={isBridgeMode}
+        toggleBridgeMode={toggleBridgeMode}
+        bridgeSource={bridgeSource}
+        bridgeTarget={bridgeTarget}
+        setBridgeEndpoint={setBridgeEndpoint}
+        bridgePaths={bridge ? bridgePaths : []}
+        activeBridgePath={activeBridgePath}
+        setActiveBridgePath={setActiveBridgePath}
       />
       <DiscoveryModal
         isOpen={isDiscoveryOpen}
         onClose={onDiscoveryClose}
         nodeList={nodeList}
+        edges={loadedEdges}
+        communityOf={communityOf}
         onComplete={handleDiscoveryComplete}
+        onImportClick={() => { onDiscoveryClose(); setIsImportOpen(true); }}
+      />
+      <CompareModal
+        isOpen={compareIds !== null}
+        onClose={() => setCompareIds(null)}
+        nodeList={nodeList}
+        selectedIds={Array.from(selectedNodes)}
+        compareIds={activeCompareIds}
+        onToggleCompare={toggleCompare}
+        comparison={comparison}
+        onDropPick={(id) => handleGraphToggle(id)}
+        focusOnNode={(id) => { setCompareIds(null); focusFnRef.current?.(id); }}
+      />
+      <MalImportModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        nodeList={nodeList}
+        dislikedNodes={dislikedNodes}
+        onImport={handleMalImport}
       />
     </div>
   );
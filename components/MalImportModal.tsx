@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { SearchableNode } from './ControlPanel';
+import { ReadingStatus } from '../lib/readingList';
+import {
+  MalEntry,
+  MalImportError,
+  matchMalEntries,
+  parseMalExport,
+  pickSeedEntries,
+  readExportFile,
+} from '../lib/malImport';
+
+export type MalImportPayload = {
+  seedIds: string[];
+  readingEntries: { id: string; status: ReadingStatus; rating: number | null }[];
+};
+
+type MalImportModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  nodeList: SearchableNode[];
+  dislikedNodes: Set<string>;
+  onImport: (payload: MalImportPayload) => void;
+};
+
+const SEED_MIN_SCORE = 8;
+const MAX_SEEDS = 5;
+
+const MalImportModal: React.FC<MalImportModalProps> = ({ isOpen, onClose, nodeList, dislikedNodes, onImport }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [entries, setEntries] = useState<MalEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [addToReadingList, setAddToReadingList] = useState(true);
+  const [useAsPicks, setUseAsPicks] = useState(true);
+  const [showUnmatched, setShowUnmatched] = useState(false);
+
+  const result = useMemo(() => {
+    if (!entries) return null;
+    return matchMalEntries(entries, new Set(nodeList.map((n) => n.id)));
+  }, [entries, nodeList]);
+
+  // Titles already marked "not for me" stay that way instead of becoming picks
+  const candidates = useMemo(() => {
+    return result ? pickSeedEntries(result.matched, SEED_MIN_SCORE, MAX_SEEDS + dislikedNodes.size) : [];
+  }, [result, dislikedNodes]);
+  const seeds = candidates.filter((e) => !dislikedNodes.has(e.id)).slice(0, MAX_SEEDS);
+  const skippedSeeds = candidates.slice(0, MAX_SEEDS).filter((e) => dislikedNodes.has(e.id));
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setEntries(null);
+    setError(null);
+    setIsLoading(true);
+    try {
+      const xml = await readExportFile(file);
+      setEntries(parseMalExport(xml));
+    } catch (e) {
+      setError(e instanceof MalImportError ? e.message : 'Could not read this file.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleImport = () => {
+    if (!result) return;
+    onImport({
+      seedIds: useAsPicks ? seeds.map((e) => e.id) : [],
+      readingEntries: addToReadingList
+        ? result.matched
+            .filter((e) => e.status !== null)
+            .map((e) => ({ id: e.id, status: e.status as ReadingStatus, rating: e.score }))
+        : [],
+    });
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-md max-h-[80vh] flex flex-col overflow-hidden pointer-events-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 py-4 border-b border-gray-100 flex justify-between items-center bg-gray-50">
+          <div>
+            <h3 className="font-bold text-gray-800">Import from MyAnimeList</h3>
+            <p className="text-xs text-gray-500">Upload your manga list export (.xml or .xml.gz). Nothing leaves your browser.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            ✕
+          </button>
+        </div>
+
+        <div className="p-5 overflow-y-auto custom-scrollbar flex flex-col gap-4">
+          <label className="flex flex-col items-center justify-center gap-1 border-2 border-dashed border-gray-200 hover:border-blue-400 rounded-lg p-4 cursor-pointer transition-colors">
+            <span className="text-sm font-bold text-gray-600">{fileName ?? 'Choose export file…'}</span>
+            <span className="text-[10px] text-gray-400">myanimelist.net → Profile → Export → Manga List</span>
+            <input
+              type="file"
+              accept=".xml,.gz,application/xml,application/gzip"
+              className="hidden"
+              onChange={(e) => { const file = e.target.files?.[0]; if (file) handleFile(file); }}
+            />
+          </label>
+
+          {isLoading && <p className="text-xs text-gray-500 text-center">Reading file…</p>}
+          {error && <p className="text-xs text-red-600 bg-red-50 border border-red-100 rounded p-2">{error}</p>}
+
+          {result && (
+            <div className="flex flex-col gap-3 text-sm">
+              <div className="grid grid-cols-2 gap-2 text-center">
+                <div className="bg-green-50 border border-green-100 rounded-lg p-2">
+                  <p className="text-lg font-bold text-green-700">{result.matched.length}</p>
+                  <p className="text-[10px] text-green-700">in the graph</p>
+                </div>
+                <div className="bg-gray-50 border border-gray-100 rounded-lg p-2">
+                  <p className="text-lg font-bold text-gray-500">{result.unmatched.length}</p>
+                  <p className="text-[10px] text-gray-500">not in the graph</p>
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-xs text-gray-700 cursor-pointer">
+                <input type="checkbox" checked={addToReadingList} onChange={() => setAddToReadingList(!addToReadingList)} className="accent-blue-600 w-4 h-4" />
+                Add matched titles to my reading list (status and score)
+              </label>
+              <label className="flex items-start gap-2 text-xs text-gray-700 cursor-pointer">
+                <input type="checkbox" checked={useAsPicks} onChange={() => setUseAsPicks(!useAsPicks)} className="accent-blue-600 w-4 h-4 mt-0.5" />
+                <span>
+                  Add my top {MAX_SEEDS} rated titles (score {SEED_MIN_SCORE}+) to my picks
+                  {useAsPicks && (
+                    <span className="block text-[10px] text-gray-400 mt-0.5">
+                      {seeds.length > 0 ? seeds.map((e) => e.title).join(', ') : 'No finished title rated that high'}
+                    </span>
+                  )}
+                  {useAsPicks && skippedSeeds.length > 0 && (
+                    <span className="block text-[10px] text-amber-600 mt-0.5">
+                      Skipped as not for you: {skippedSeeds.map((e) => e.title).join(', ')}
+                    </span>
+                  )}
+                </span>
+              </label>
+
+              {result.unmatched.length > 0 && (
+                <div>
+                  <button onClick={() => setShowUnmatched(!showUnmatched)} className="text-[10px] font-bold text-gray-500 hover:text-gray-700">
+                    {showUnmatched ? '▼' : '▶'} Unmatched titles
+                  </button>
+                  {showUnmatched && (
+                    <ul className="mt-1 max-h-32 overflow-y-auto text-[10px] text-gray-500 divide-y divide-gray-50 border border-gray-100 rounded">
+                      {result.unmatched.map((e) => (
+                        <li key={e.id} className="px-2 py-1 flex justify-between gap-2">
+                          <span className="truncate">{e.title || '(untitled)'}</span>
+                          <span className="text-gray-300 flex-shrink-0">{e.malStatus} · ID:{e.id}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 bg-gray-50 flex justify-end items-center">
+          <button
+            onClick={handleImport}
+            disabled={!result || result.matched.length === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-bold hover:bg-blue-700 transition shadow-sm disabled:bg-gray-300"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MalImportModal;
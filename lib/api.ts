@@ -0,0 +1,167 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { DATASETS, DATASET_QUERY_PARAM, DatasetError, DatasetVersion, RawNode, resolveDatasetVersion } from './dataset';
+import { DEFAULT_STRENGTH_METHOD, STRENGTH_METHODS } from './edgeStrength';
+import { matchesGenreFilter, parseGenreFilter } from './genreFilter';
+import { QueryError, parseQuery } from './query';
+import { DatasetUnavailableError, ServerGraph, loadServerGraph } from './serverGraph';
+
+// ==========================================
+// API route helpers
+// Query parameter parsing, the node filters every graph route accepts, and a
+// handler wrapper that loads the shared server graph and turns errors into
+// JSON responses. Unlike URL state, bad parameters are rejected with a 400
+// instead of silently falling back to defaults.
+// ==========================================
+
+export class ApiError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export type ApiQuery = NextApiRequest['query'];
+
+export type ApiNode = RawNode & { degree: number; community?: number };
+
+export type ApiEdge = {
+  source: string;
+  target: string;
+  // Raw co-occurrence count and the weight after the requested strength method
+  strength: number;
+  weight: number;
+};
+
+export type GraphFilters = {
+  isNodeValid: (node: string) => boolean;
+  isEdgeValid: (edge: string) => boolean;
+};
+
+// Most seed ids a single request may name
+export const MAX_REQUEST_IDS = 50;
+
+const first = (v: string | string[] | undefined) => (Array.isArray(v) ? v[0] : v);
+
+export const readString = (query: ApiQuery, key: string): string | undefined => {
+  const value = first(query[key])?.trim();
+  return value ? value : undefined;
+};
+
+// Comma-separated, or the parameter repeated (`ids=1&ids=2`)
+export const readList = (query: ApiQuery, key: string): string[] => {
+  const raw = query[key];
+  const values = Array.isArray(raw) ? raw : raw === undefined ? [] : [raw];
+  return values.flatMap((v) => v.split(',')).map((s) => s.trim()).filter(Boolean);
+};
+
+export const readIds = (query: ApiQuery, key: string, required: boolean): string[] => {
+  const ids = Array.from(new Set(readList(query, key)));
+  if (required && ids.length === 0) throw new ApiError(400, `"${key}" is required`);
+  if (ids.length > MAX_REQUEST_IDS) throw new ApiError(400, `"${key}" accepts at most ${MAX_REQUEST_IDS} ids`);
+  return ids;
+};
+
+export const readNumber = (
+  query: ApiQuery,
+  key: string,
+  fallback: number,
+  { min = -Infinity, max = Infinity, integer = false } = {}
+): number => {
+  const raw = readString(query, key);
+  if (raw === undefined) return fallback;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || (integer && !Number.isInteger(n)) || n < min || n > max) {
+    const range = [min > -Infinity && `>= ${min}`, max < Infinity && `<= ${max}`].filter(Boolean).join(' and ');
+    throw new ApiError(400, `"${key}" must be ${integer ? 'an integer' : 'a number'}${range ? ` ${range}` : ''}`);
+  }
+  return n;
+};
+
+export const readOption = <T extends string>(query: ApiQuery, key: string, options: { id: T }[], fallback: T): T => {
+  const raw = readString(query, key);
+  if (raw === undefined) return fallback;
+  const option = options.find((o) => o.id === raw);
+  if (!option) throw new ApiError(400, `"${key}" must be one of ${options.map((o) => o.id).join(', ')}`);
+  return option.id;
+};
+
+const readDatasetVersion = (query: ApiQuery): DatasetVersion => {
+  const raw = readString(query, DATASET_QUERY_PARAM);
+  if (raw !== undefined && resolveDatasetVersion(raw) !== raw) {
+    throw new ApiError(400, `"${DATASET_QUERY_PARAM}" must be one of ${Object.keys(DATASETS).join(', ')}`);
+  }
+  return resolveDatasetVersion(raw);
+};
+
+// Same meaning as the sidebar filters: minStrength, minScore, minRaters, genres (+must, -not) and a query expression
+export const readGraphFilters = (query: ApiQuery, { graph }: ServerGraph): GraphFilters => {
+  const minStrength = readNumber(query, 'minStrength', 0, { min: 0 });
+  const minScore = readNumber(query, 'minScore', 0, { min: 0, max: 10 });
+  const minRaters = readNumber(query, 'minRaters', 0, { min: 0 });
+  const genreFilter = parseGenreFilter(readList(query, 'genres'));
+  let predicate: ReturnType<typeof parseQuery> = null;
+  try {
+    predicate = parseQuery(readString(query, 'filter') ?? '');
+  } catch (err) {
+    if (err instanceof QueryError) throw new ApiError(400, `"filter" is invalid at ${err.start}: ${err.message}`);
+    throw err;
+  }
+
+  return {
+    isEdgeValid: (edge) => (Number(graph.getEdgeAttribute(edge, 'weight')) || 0) >= minStrength,
+    isNodeValid: (node) => {
+      if (!graph.hasNode(node)) return false;
+      const attrs = graph.getNodeAttributes(node) as RawNode;
+      if (predicate) return predicate({ ...attrs, degree: graph.degree(node) });
+      // Unrated titles have nothing to compare, so the rating filters leave them alone
+      if (attrs.score !== null && attrs.score < minScore) return false;
+      if (attrs.scored_by !== null && attrs.scored_by < minRaters) return false;
+      return matchesGenreFilter(attrs.genres, genreFilter);
+    },
+  };
+};
+
+export const toApiNode = ({ graph, nodes }: ServerGraph, id: string): ApiNode => ({
+  ...nodes.get(id)!,
+  degree: graph.hasNode(id) ? graph.degree(id) : 0,
+  community: graph.hasNode(id) ? graph.getNodeAttribute(id, 'community') : undefined,
+});
+
+export const toApiEdge = ({ graph }: ServerGraph, edge: string): ApiEdge => {
+  const attrs = graph.getEdgeAttributes(edge);
+  return {
+    source: graph.source(edge),
+    target: graph.target(edge),
+    strength: Number(attrs.strength) || 0,
+    weight: Number(attrs.weight) || 0,
+  };
+};
+
+type RouteHandler<T> = (query: ApiQuery, server: ServerGraph) => T | Promise<T>;
+
+// GET-only JSON route over the shared graph for the requested dataset and strength method
+export const graphRoute = <T>(handler: RouteHandler<T>) =>
+  async (req: NextApiRequest, res: NextApiResponse<T | { error: string }>) => {
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', 'GET');
+      res.status(405).json({ error: `Method ${req.method} not allowed` });
+      return;
+    }
+    try {
+      const version = readDatasetVersion(req.query);
+      const method = readOption(req.query, 'method', STRENGTH_METHODS, DEFAULT_STRENGTH_METHOD);
+      const server = await loadServerGraph(version, method);
+      res.status(200).json(await handler(req.query, server));
+    } catch (err) {
+      if (err instanceof ApiError) {
+        res.status(err.status).json({ error: err.message });
+      } else if (err instanceof DatasetUnavailableError) {
+        res.status(503).json({ error: err.message });
+      } else if (err instanceof DatasetError) {
+        res.status(500).json({ error: err.message });
+      } else {
+        console.error(err);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    }
+  };
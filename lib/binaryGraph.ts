@@ -0,0 +1,290 @@
+import { DATASETS, DatasetError, DatasetVersion, GraphData, LoadedDataset, RawEdge, RawNode, fetchBytes } from './dataset';
+
+// ==========================================
+// Binary graph format (.bin)
+// A compact alternative to the graph JSON: a deduplicated UTF-8 string table,
+// a columnar node table and CSR adjacency with 16-bit strengths. Decoding is
+// a handful of typed-array views instead of a JSON parse plus validation.
+//
+// Layout, little-endian, every section 4-byte aligned:
+//   header      magic "MNXG", format version, counts, f64 strength scale
+//   strings     u32 offsets[stringCount + 1], UTF-8 bytes
+//   nodes       u32 id, title, title_en (NONE = null), image_url, scored_by
+//               u32 genre offsets[n + 1] + refs, alias offsets[n + 1] + refs
+//               i32 x, y in hundredths (MISSING = no position), u16 score in hundredths
+//               (scored_by NONE / score NO_SCORE = unrated)
+//   edges       u32 row offsets[n + 1], u32 targets, u16 strengths
+// Each edge is stored once, under the endpoint that comes first in the node table.
+// ==========================================
+
+export const BINARY_GRAPH_EXTENSION = '.bin';
+
+const MAGIC = 0x47584e4d; // "MNXG"
+const FORMAT_VERSION = 2;
+const HEADER_BYTES = 40;
+const NONE = 0xffffffff;
+const MISSING_POSITION = -0x80000000;
+// Scores and positions are stored in hundredths (what the data and bake-layout carry)
+const FIXED_POINT = 100;
+const MAX_QUANTIZED = 0xffff;
+// 655.35 is never a real score, so the top value marks an unrated title
+const NO_SCORE = MAX_QUANTIZED;
+
+type TypedArray = Uint8Array | Uint16Array | Uint32Array | Int32Array;
+type TypedArrayType<T extends TypedArray> = {
+  new (buffer: ArrayBufferLike, byteOffset: number, length: number): T;
+  new (length: number): T;
+  BYTES_PER_ELEMENT: number;
+};
+
+const pad4 = (n: number) => (n + 3) & ~3;
+
+const isLittleEndian = () => new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+// Integer strengths up to 65535 are stored exactly; anything else is scaled onto 16 bits
+export const strengthScaleFor = (edges: RawEdge[]): number => {
+  const max = edges.reduce((m, e) => Math.max(m, e.strength), 0);
+  const exact = max <= MAX_QUANTIZED && edges.every((e) => Number.isInteger(e.strength) && e.strength >= 0);
+  return exact || max <= 0 ? 1 : max / MAX_QUANTIZED;
+};
+
+// --- Encoding ---
+export const encodeGraph = ({ nodes, edges }: GraphData): Uint8Array => {
+  if (!isLittleEndian()) throw new Error('The binary graph format is little-endian only');
+
+  const strings: string[] = [];
+  const stringIds = new Map<string, number>();
+  const ref = (s: string) => {
+    let id = stringIds.get(s);
+    if (id === undefined) {
+      id = strings.length;
+      strings.push(s);
+      stringIds.set(s, id);
+    }
+    return id;
+  };
+
+  const n = nodes.length;
+  const indexOf = new Map(nodes.map((node, i) => [node.id, i]));
+  const column = () => new Uint32Array(n);
+  const id = column(), title = column(), titleEn = column(), image = column(), scoredBy = column();
+  const x = new Int32Array(n), y = new Int32Array(n);
+  const score = new Uint16Array(n);
+  const genreOffsets = new Uint32Array(n + 1), aliasOffsets = new Uint32Array(n + 1);
+  const genreRefs: number[] = [], aliasRefs: number[] = [];
+  const toFixed = (v: number | undefined) => (Number.isFinite(v) ? Math.round(v! * FIXED_POINT) : MISSING_POSITION);
+
+  nodes.forEach((node, i) => {
+    id[i] = ref(node.id);
+    title[i] = ref(node.title);
+    titleEn[i] = node.title_en == null ? NONE : ref(node.title_en);
+    image[i] = ref(node.image_url);
+    scoredBy[i] = node.scored_by === null ? NONE : Math.min(NONE - 1, Math.max(0, Math.round(node.scored_by)));
+    score[i] = node.score === null ? NO_SCORE : Math.min(NO_SCORE - 1, Math.max(0, Math.round(node.score * FIXED_POINT)));
+    x[i] = toFixed(node.x);
+    y[i] = toFixed(node.y);
+    (node.genres || []).forEach((g) => genreRefs.push(ref(g)));
+    genreOffsets[i + 1] = genreRefs.length;
+    (node.aliases || []).forEach((a) => aliasRefs.push(ref(a)));
+    aliasOffsets[i + 1] = aliasRefs.length;
+  });
+
+  // CSR rows: each edge under its lower-index endpoint, targets ascending
+  const scale = strengthScaleFor(edges);
+  const rows: { target: number; strength: number }[][] = nodes.map(() => []);
+  edges.forEach((edge) => {
+    const a = indexOf.get(edge.source);
+    const b = indexOf.get(edge.target);
+    if (a === undefined || b === undefined) throw new Error(`Edge ${edge.source}-${edge.target} references an unknown node`);
+    rows[Math.min(a, b)].push({
+      target: Math.max(a, b),
+      strength: Math.min(MAX_QUANTIZED, Math.round(edge.strength / scale)),
+    });
+  });
+  const rowOffsets = new Uint32Array(n + 1);
+  const targets = new Uint32Array(edges.length);
+  const strengths = new Uint16Array(edges.length);
+  let e = 0;
+  rows.forEach((row, i) => {
+    row.sort((p, q) => p.target - q.target).forEach(({ target, strength }) => {
+      targets[e] = target;
+      strengths[e] = strength;
+      e++;
+    });
+    rowOffsets[i + 1] = e;
+  });
+
+  const encoder = new TextEncoder();
+  const encoded = strings.map((s) => encoder.encode(s));
+  const stringOffsets = new Uint32Array(strings.length + 1);
+  encoded.forEach((bytes, i) => { stringOffsets[i + 1] = stringOffsets[i] + bytes.length; });
+  const stringBlob = new Uint8Array(stringOffsets[strings.length]);
+  encoded.forEach((bytes, i) => stringBlob.set(bytes, stringOffsets[i]));
+
+  const sections: TypedArray[] = [
+    stringOffsets, stringBlob,
+    id, title, titleEn, image, scoredBy,
+    genreOffsets, Uint32Array.from(genreRefs), aliasOffsets, Uint32Array.from(aliasRefs),
+    x, y, score,
+    rowOffsets, targets, strengths,
+  ];
+  const out = new Uint8Array(sections.reduce((total, s) => total + pad4(s.byteLength), HEADER_BYTES));
+  const header = new DataView(out.buffer);
+  header.setUint32(0, MAGIC, true);
+  header.setUint16(4, FORMAT_VERSION, true);
+  // Bytes 6-7 and 28-31 are reserved
+  header.setUint32(8, n, true);
+  header.setUint32(12, edges.length, true);
+  header.setUint32(16, strings.length, true);
+  header.setUint32(20, genreRefs.length, true);
+  header.setUint32(24, aliasRefs.length, true);
+  header.setFloat64(32, scale, true);
+
+  let offset = HEADER_BYTES;
+  sections.forEach((section) => {
+    out.set(new Uint8Array(section.buffer, section.byteOffset, section.byteLength), offset);
+    offset += pad4(section.byteLength);
+  });
+  return out;
+};
+
+// --- Decoding ---
+const createReader = (bytes: Uint8Array) => {
+  let offset = HEADER_BYTES;
+  return <T extends TypedArray>(Type: TypedArrayType<T>, length: number): T => {
+    const byteLength = length * Type.BYTES_PER_ELEMENT;
+    if (offset + byteLength > bytes.byteLength) throw new DatasetError('Binary graph is truncated');
+    const start = bytes.byteOffset + offset;
+    // Views need aligned offsets; a buffer sliced out of a larger one may not be
+    const view = start % Type.BYTES_PER_ELEMENT === 0
+      ? new Type(bytes.buffer, start, length)
+      : new Type(bytes.slice(offset, offset + byteLength).buffer, 0, length);
+    offset += pad4(byteLength);
+    return view;
+  };
+};
+
+export const decodeGraph = (bytes: Uint8Array): GraphData => {
+  if (!isLittleEndian()) throw new DatasetError('The binary graph format is little-endian only');
+  if (bytes.byteLength < HEADER_BYTES) throw new DatasetError('Binary graph is truncated');
+  const header = new DataView(bytes.buffer, bytes.byteOffset, HEADER_BYTES);
+  if (header.getUint32(0, true) !== MAGIC) throw new DatasetError('Not a binary graph file');
+  const version = header.getUint16(4, true);
+  if (version !== FORMAT_VERSION) throw new DatasetError(`Unsupported binary graph version ${version}`);
+  const n = header.getUint32(8, true);
+  const edgeCount = header.getUint32(12, true);
+  const stringCount = header.getUint32(16, true);
+  const genreCount = header.getUint32(20, true);
+  const aliasCount = header.getUint32(24, true);
+  const scale = header.getFloat64(32, true);
+
+  const read = createReader(bytes);
+  const stringOffsets = read(Uint32Array, stringCount + 1);
+  const stringBlob = read(Uint8Array, stringOffsets[stringCount]);
+  const decoder = new TextDecoder();
+  const strings = Array.from({ length: stringCount }, (_, i) =>
+    decoder.decode(stringBlob.subarray(stringOffsets[i], stringOffsets[i + 1]))
+  );
+  const str = (i: number) => {
+    if (i >= stringCount) throw new DatasetError('Binary graph references a missing string');
+    return strings[i];
+  };
+
+  const id = read(Uint32Array, n), title = read(Uint32Array, n), titleEn = read(Uint32Array, n);
+  const image = read(Uint32Array, n), scoredBy = read(Uint32Array, n);
+  const genreOffsets = read(Uint32Array, n + 1), genreRefs = read(Uint32Array, genreCount);
+  const aliasOffsets = read(Uint32Array, n + 1), aliasRefs = read(Uint32Array, aliasCount);
+  const x = read(Int32Array, n), y = read(Int32Array, n);
+  const score = read(Uint16Array, n);
+  const rowOffsets = read(Uint32Array, n + 1);
+  const targets = read(Uint32Array, edgeCount);
+  const strengths = read(Uint16Array, edgeCount);
+
+  const nodes: RawNode[] = Array.from({ length: n }, (_, i) => {
+    const node: RawNode = {
+      id: str(id[i]),
+      title: str(title[i]),
+      title_en: titleEn[i] === NONE ? null : str(titleEn[i]),
+      image_url: str(image[i]),
+      score: score[i] === NO_SCORE ? null : score[i] / FIXED_POINT,
+      scored_by: scoredBy[i] === NONE ? null : scoredBy[i],
+      genres: Array.from(genreRefs.subarray(genreOffsets[i], genreOffsets[i + 1]), str),
+    };
+    if (aliasOffsets[i + 1] > aliasOffsets[i]) {
+      node.aliases = Array.from(aliasRefs.subarray(aliasOffsets[i], aliasOffsets[i + 1]), str);
+    }
+    if (x[i] !== MISSING_POSITION && y[i] !== MISSING_POSITION) {
+      node.x = x[i] / FIXED_POINT;
+      node.y = y[i] / FIXED_POINT;
+    }
+    return node;
+  });
+
+  const edges: RawEdge[] = new Array(edgeCount);
+  for (let source = 0; source < n; source++) {
+    for (let e = rowOffsets[source]; e < rowOffsets[source + 1]; e++) {
+      if (targets[e] >= n) throw new DatasetError('Binary graph has an edge to a missing node');
+      edges[e] = { source: nodes[source].id, target: nodes[targets[e]].id, strength: strengths[e] * scale };
+    }
+  }
+  return { nodes, edges };
+};
+
+// --- Verification ---
+// Differences between a graph and its decoded copy beyond the format's precision
+// (hundredths for scores and positions, the strength scale for edges). Empty means a faithful round trip.
+export const compareGraphs = (original: GraphData, decoded: GraphData, maxIssues = 20): string[] => {
+  const issues: string[] = [];
+  const report = (message: string) => { if (issues.length < maxIssues) issues.push(message); };
+  const close = (a: number | null | undefined, b: number | null | undefined, tolerance: number) =>
+    a == null || b == null ? (a ?? null) === (b ?? null) : Math.abs(a - b) <= tolerance;
+  const sameList = (a: string[] | undefined, b: string[] | undefined) => (a || []).join('\u0000') === (b || []).join('\u0000');
+  const positionOf = (v: number | undefined) => (Number.isFinite(v) ? v : undefined);
+
+  if (original.nodes.length !== decoded.nodes.length) report(`node count ${original.nodes.length} != ${decoded.nodes.length}`);
+  original.nodes.forEach((node, i) => {
+    const other = decoded.nodes[i];
+    if (!other) return;
+    const mismatched = [
+      node.id !== other.id && 'id',
+      node.title !== other.title && 'title',
+      (node.title_en ?? null) !== other.title_en && 'title_en',
+      node.image_url !== other.image_url && 'image_url',
+      !close(node.score, other.score, 0.5 / FIXED_POINT) && 'score',
+      (node.scored_by === null ? null : Math.round(node.scored_by)) !== other.scored_by && 'scored_by',
+      !sameList(node.genres, other.genres) && 'genres',
+      !sameList(node.aliases, other.aliases) && 'aliases',
+      !close(positionOf(node.x), other.x, 0.5 / FIXED_POINT) && 'x',
+      !close(positionOf(node.y), other.y, 0.5 / FIXED_POINT) && 'y',
+    ].filter(Boolean);
+    if (mismatched.length > 0) report(`node ${node.id}: ${mismatched.join(', ')} differ`);
+  });
+
+  const key = (e: RawEdge) => (e.source < e.target ? `${e.source}|${e.target}` : `${e.target}|${e.source}`);
+  const decodedEdges = new Map(decoded.edges.map((e) => [key(e), e.strength]));
+  if (original.edges.length !== decoded.edges.length) report(`edge count ${original.edges.length} != ${decoded.edges.length}`);
+  const tolerance = strengthScaleFor(original.edges) / 2 + 1e-9;
+  original.edges.forEach((edge) => {
+    const strength = decodedEdges.get(key(edge));
+    if (strength === undefined) report(`edge ${key(edge)} is missing`);
+    else if (!close(edge.strength, strength, tolerance)) report(`edge ${key(edge)}: strength ${edge.strength} != ${strength}`);
+  });
+  return issues;
+};
+
+// --- Loading ---
+// public/graph-data-v3.json -> public/graph-data-v3.bin
+export const binaryPathFor = (datasetPath: string) => datasetPath.replace(/\.json$/, '') + BINARY_GRAPH_EXTENSION;
+
+export const loadBinaryDataset = async (
+  version: DatasetVersion,
+  onProgress?: (fraction: number) => void
+): Promise<LoadedDataset> => {
+  const bytes = await fetchBytes(binaryPathFor(DATASETS[version].path), `Dataset "${version}"`, onProgress);
+  const data = decodeGraph(bytes);
+  return {
+    version,
+    data,
+    report: { version, nodeCount: data.nodes.length, edgeCount: data.edges.length, droppedNodes: 0, droppedEdges: 0, issues: [] },
+  };
+};
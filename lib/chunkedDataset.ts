@@ -0,0 +1,179 @@
+import {
+  DATASETS,
+  DatasetError,
+  DatasetVersion,
+  GraphData,
+  RawEdge,
+  RawNode,
+  fetchJson,
+  loadDataset,
+  logDatasetReport,
+  parseDataset,
+  parseEdgeShard,
+} from './dataset';
+import { loadBinaryDataset } from './binaryGraph';
+
+// ==========================================
+// Progressive (chunked) datasets
+// scripts/split-dataset.ts splits a graph JSON into a node index plus edge
+// shards grouped by importance tier. Tier 0 (the most rated and connected
+// titles) is enough to draw the map; later tiers are fetched only when the
+// user zooms in or filters toward them. A dataset that is not split (see its
+// `format` in DATASETS) is downloaded whole, as binary or JSON, and tiered in
+// memory, so the graph still starts small.
+// ==========================================
+
+export const CHUNK_FORMAT = 'manga-nexus-chunks/1';
+export const CHUNK_INDEX_FILE = 'index.json';
+
+// Titles rated below this go to the last tier (unrated titles are not low-rated)
+export const LOAD_MIN_SCORE = 1.0;
+// Small enough that the shipped v3 (722 titles) splits into three tiers
+export const DEFAULT_CORE_SIZE = 200;
+// Each later tier holds this many times the titles of the one before
+const TIER_GROWTH = 2;
+export const DEFAULT_SHARD_SIZE = 20000;
+// Every halving of the camera ratio (zooming in) reveals one more tier
+const ZOOM_FACTOR_PER_TIER = 2;
+
+export type ChunkTier = {
+  nodes: string[];
+  edgeCount: number;
+  // Edge files relative to the index
+  shards: string[];
+};
+
+export type ChunkIndex = {
+  format: typeof CHUNK_FORMAT;
+  nodes: RawNode[];
+  tiers: ChunkTier[];
+};
+
+export type LoadProgress = { label: string; fraction: number };
+
+export type ProgressiveDataset = {
+  version: DatasetVersion;
+  // Every title, loaded into the graph or not (search, genres, selection lookups)
+  nodes: RawNode[];
+  tierOf: Map<string, number>;
+  tierCount: number;
+  // Titles and edges of one tier. Edges only reach this or earlier tiers; their
+  // endpoints are included so titles that had no edge until now can be added.
+  loadTier: (tier: number, onProgress?: (fraction: number) => void) => Promise<GraphData>;
+};
+
+// --- Tiering ---
+const isLowScore = (node: RawNode) => node.score !== null && node.score > 0 && node.score < LOAD_MIN_SCORE;
+
+// Node ids per tier, most important first: by raters, then degree; low-rated titles last
+export const assignTiers = ({ nodes, edges }: GraphData, coreSize = DEFAULT_CORE_SIZE): string[][] => {
+  const degree = new Map<string, number>();
+  edges.forEach(({ source, target }) => {
+    degree.set(source, (degree.get(source) || 0) + 1);
+    degree.set(target, (degree.get(target) || 0) + 1);
+  });
+  const ranked = nodes
+    .filter((n) => !isLowScore(n))
+    .sort((a, b) => (b.scored_by || 0) - (a.scored_by || 0) || (degree.get(b.id) || 0) - (degree.get(a.id) || 0));
+
+  const tiers: string[][] = [];
+  for (let start = 0, size = coreSize; start < ranked.length; start += size, size *= TIER_GROWTH) {
+    tiers.push(ranked.slice(start, start + size).map((n) => n.id));
+  }
+  const low = nodes.filter(isLowScore).map((n) => n.id);
+  if (low.length > 0) tiers.push(low);
+  return tiers.length > 0 ? tiers : [[]];
+};
+
+// An edge belongs to the later tier of its two endpoints
+export const splitEdgesByTier = (edges: RawEdge[], tiers: string[][]): RawEdge[][] => {
+  const tierOf = new Map(tiers.flatMap((ids, tier) => ids.map((id) => [id, tier] as const)));
+  const byTier: RawEdge[][] = tiers.map(() => []);
+  edges.forEach((edge) => {
+    const tier = Math.max(tierOf.get(edge.source) ?? 0, tierOf.get(edge.target) ?? 0);
+    byTier[tier].push(edge);
+  });
+  return byTier;
+};
+
+export const tierForZoom = (cameraRatio: number): number =>
+  cameraRatio >= 1 ? 0 : Math.floor(Math.log(1 / cameraRatio) / Math.log(ZOOM_FACTOR_PER_TIER));
+
+// --- Loading ---
+// public/graph-data-v3.json -> public/graph-data-v3/index.json
+export const chunkDirectory = (datasetPath: string) => datasetPath.replace(/\.json$/, '');
+
+const withEndpoints = (nodesById: Map<string, RawNode>, ids: string[], edges: RawEdge[]): GraphData => {
+  const included = new Set(ids);
+  edges.forEach(({ source, target }) => { included.add(source); included.add(target); });
+  return { nodes: Array.from(included, (id) => nodesById.get(id)!).filter(Boolean), edges };
+};
+
+const fromSingleFile = async (version: DatasetVersion, onProgress?: (p: LoadProgress) => void): Promise<ProgressiveDataset> => {
+  const report = (fraction: number) => onProgress?.({ label: 'Loading graph', fraction });
+  const { data } = DATASETS[version].format === 'binary'
+    ? await loadBinaryDataset(version, report)
+    : await loadDataset(version, report);
+  const tiers = assignTiers(data);
+  const edgesByTier = splitEdgesByTier(data.edges, tiers);
+  const nodesById = new Map(data.nodes.map((n) => [n.id, n]));
+  return {
+    version,
+    nodes: data.nodes,
+    tierOf: new Map(tiers.flatMap((ids, tier) => ids.map((id) => [id, tier] as const))),
+    tierCount: tiers.length,
+    loadTier: async (tier) => withEndpoints(nodesById, tiers[tier] ?? [], edgesByTier[tier] ?? []),
+  };
+};
+
+const fromChunks = async (
+  version: DatasetVersion,
+  directory: string,
+  onProgress?: (p: LoadProgress) => void
+): Promise<ProgressiveDataset> => {
+  const json = await fetchJson(`${directory}/${CHUNK_INDEX_FILE}`, `Dataset "${version}" index`, (fraction) =>
+    onProgress?.({ label: 'Loading titles', fraction })
+  );
+  const index = json as Partial<ChunkIndex> | null;
+  if (!index || index.format !== CHUNK_FORMAT || !Array.isArray(index.tiers)) {
+    throw new DatasetError(`Dataset "${version}" index is not a ${CHUNK_FORMAT} file`);
+  }
+  const tiers = index.tiers;
+  const { data, report } = parseDataset({ nodes: index.nodes, edges: [] }, version);
+  logDatasetReport(report);
+  const nodesById = new Map(data.nodes.map((n) => [n.id, n]));
+  const nodeIds = new Set(nodesById.keys());
+
+  const loadTier = async (tier: number, onShardProgress?: (fraction: number) => void) => {
+    const { nodes = [], shards = [] } = tiers[tier] ?? {};
+    const edges: RawEdge[] = [];
+    for (let i = 0; i < shards.length; i++) {
+      const shard = await fetchJson(`${directory}/${shards[i]}`, `Dataset "${version}" shard ${shards[i]}`, (fraction) =>
+        onShardProgress?.((i + fraction) / shards.length)
+      );
+      const parsed = parseEdgeShard(shard, nodeIds, version);
+      logDatasetReport(parsed.report);
+      edges.push(...parsed.edges);
+    }
+    return withEndpoints(nodesById, nodes.filter((id) => nodeIds.has(id)), edges);
+  };
+
+  return {
+    version,
+    nodes: data.nodes,
+    tierOf: new Map(tiers.flatMap((t, tier) => t.nodes.map((id) => [id, tier] as const))),
+    tierCount: Math.max(1, tiers.length),
+    loadTier,
+  };
+};
+
+// Loads the files the dataset's declared format names, without probing for others
+export const loadProgressiveDataset = async (
+  version: DatasetVersion,
+  onProgress?: (p: LoadProgress) => void
+): Promise<ProgressiveDataset> => {
+  const { path, format } = DATASETS[version];
+  return format === 'chunks'
+    ? fromChunks(version, chunkDirectory(path), onProgress)
+    : fromSingleFile(version, onProgress);
+};
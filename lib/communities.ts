@@ -0,0 +1,162 @@
+import Graph from 'graphology';
+import louvain from 'graphology-communities-louvain';
+import { createRandom } from './layout';
+
+// ==========================================
+// Community detection
+// Louvain over the co-occurrence weights. Communities are numbered by size
+// (0 = largest) and the RNG is seeded, so ids stay stable across visits and
+// can be shared in links. When more titles load and the graph is re-detected,
+// each community keeps the id of the earlier community it overlaps most.
+// ==========================================
+
+export type ColorMode = 'genre' | 'community';
+
+export const COLOR_MODES: { id: ColorMode; label: string }[] = [
+  { id: 'genre', label: 'Genre' },
+  { id: 'community', label: 'Community' },
+];
+
+export const DEFAULT_COLOR_MODE: ColorMode = 'genre';
+
+export type Community = {
+  id: number;
+  size: number;
+  color: string;
+  label: string;
+  // Genres over-represented in this community, most distinctive first
+  topGenres: string[];
+  // Best-connected titles inside the community
+  topTitles: string[];
+};
+
+export type CommunityResult = {
+  // Node id -> community id
+  assignments: Map<string, number>;
+  communities: Community[];
+  modularity: number;
+};
+
+const COMMUNITY_COLORS = [
+  '#2563eb', '#dc2626', '#16a34a', '#d97706', '#9333ea', '#0891b2',
+  '#db2777', '#65a30d', '#4f46e5', '#ea580c', '#0d9488', '#be123c',
+];
+// Communities beyond the palette (usually tiny ones) share a neutral color
+const OVERFLOW_COLOR = '#94a3b8';
+
+const SEED = 1;
+const TOP_GENRES = 2;
+const TOP_TITLES = 3;
+// A genre must be at least this much more common than in the whole graph to describe a community
+const MIN_GENRE_LIFT = 1.2;
+
+export const getCommunityColor = (id: number) => COMMUNITY_COLORS[id] ?? OVERFLOW_COLOR;
+
+const countGenres = (graph: Graph, nodes: string[]) => {
+  const counts = new Map<string, number>();
+  nodes.forEach((node) => {
+    ((graph.getNodeAttribute(node, 'genres') as string[]) || []).forEach((g) => {
+      if (g !== 'Award Winning') counts.set(g, (counts.get(g) || 0) + 1);
+    });
+  });
+  return counts;
+};
+
+// Dominant genres weighted by how unusual they are for the graph, so every
+// community isn't simply labelled with the globally most common genre
+const describeGenres = (graph: Graph, members: string[], globalCounts: Map<string, number>) => {
+  const counts = countGenres(graph, members);
+  const order = graph.order || 1;
+  return Array.from(counts.entries())
+    .map(([genre, count]) => {
+      const share = count / members.length;
+      const lift = share / ((globalCounts.get(genre) || 1) / order);
+      return { genre, share, lift };
+    })
+    .filter((g) => g.lift >= MIN_GENRE_LIFT || counts.size <= TOP_GENRES)
+    .sort((a, b) => b.share * b.lift - a.share * a.lift)
+    .slice(0, TOP_GENRES)
+    .map((g) => g.genre);
+};
+
+// Strength of ties inside the community picks its most representative titles
+const describeTitles = (graph: Graph, members: Set<string>) =>
+  Array.from(members)
+    .map((node) => {
+      let internal = 0;
+      graph.forEachEdge(node, (_edge, attrs, source, target) => {
+        if (members.has(source === node ? target : source)) internal += attrs.weight || 0;
+      });
+      return { node, internal };
+    })
+    .sort((a, b) => b.internal - a.internal)
+    .slice(0, TOP_TITLES)
+    .map(({ node }) => String(graph.getNodeAttribute(node, 'label') ?? node));
+
+// Ids for the new communities (largest first) carried over from `previous` by shared titles
+const matchPreviousIds = (ordered: string[][], previous: Map<string, number>): number[] => {
+  const overlaps: { index: number; id: number; count: number }[] = [];
+  ordered.forEach((nodes, index) => {
+    const counts = new Map<number, number>();
+    nodes.forEach((node) => {
+      const id = previous.get(node);
+      if (id !== undefined) counts.set(id, (counts.get(id) || 0) + 1);
+    });
+    counts.forEach((count, id) => overlaps.push({ index, id, count }));
+  });
+
+  // Biggest overlaps claim their id first; an old id goes to one new community at most
+  overlaps.sort((a, b) => b.count - a.count || a.index - b.index || a.id - b.id);
+  const ids: (number | null)[] = ordered.map(() => null);
+  const taken = new Set<number>();
+  overlaps.forEach(({ index, id }) => {
+    if (ids[index] !== null || taken.has(id)) return;
+    ids[index] = id;
+    taken.add(id);
+  });
+
+  // Communities with no earlier counterpart get ids that no old link points at
+  let next = 0;
+  previous.forEach((id) => { next = Math.max(next, id + 1); });
+  return ids.map((id) => id ?? next++);
+};
+
+// `previous` (node id -> community id from an earlier run) keeps ids stable as the graph grows
+export const detectCommunities = (graph: Graph, resolution = 1, previous?: Map<string, number>): CommunityResult => {
+  if (graph.order === 0 || graph.size === 0) {
+    return { assignments: new Map(), communities: [], modularity: 0 };
+  }
+  const { communities: raw, modularity } = louvain.detailed(graph, {
+    getEdgeWeight: 'weight',
+    resolution,
+    rng: createRandom(SEED),
+  });
+
+  // Renumber by size so the largest community always gets the first color
+  const members = new Map<number, string[]>();
+  Object.entries(raw).forEach(([node, c]) => {
+    if (!members.has(c)) members.set(c, []);
+    members.get(c)!.push(node);
+  });
+  const ordered = Array.from(members.values()).sort((a, b) => b.length - a.length || a[0].localeCompare(b[0]));
+
+  const globalCounts = countGenres(graph, graph.nodes());
+  const assignments = new Map<string, number>();
+  const ids = previous && previous.size > 0 ? matchPreviousIds(ordered, previous) : ordered.map((_nodes, index) => index);
+  const communities = ordered.map((nodes, index): Community => {
+    const id = ids[index];
+    nodes.forEach((node) => assignments.set(node, id));
+    const topGenres = describeGenres(graph, nodes, globalCounts);
+    const topTitles = describeTitles(graph, new Set(nodes));
+    return {
+      id,
+      size: nodes.length,
+      color: getCommunityColor(id),
+      label: topGenres.length > 0 ? topGenres.join(' · ') : topTitles[0] ?? `Community ${id + 1}`,
+      topGenres,
+      topTitles,
+    };
+  });
+
+  return { assignments, communities, modularity };
+};
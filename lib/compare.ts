@@ -0,0 +1,82 @@
+import Graph from 'graphology';
+
+// ==========================================
+// Pick comparison
+// Splits the neighbors of 2-4 picks into Venn regions (which picks each
+// neighbor is tied to), so it is clear what every pick contributes and which
+// one is emptying the shared intersection.
+// ==========================================
+
+export const MAX_COMPARE = 4;
+
+export type NeighborRegion = {
+  // Picks every node in this region is tied to, in comparison order
+  members: string[];
+  // Strongest combined ties first
+  nodes: string[];
+};
+
+export type Comparison = {
+  ids: string[];
+  // Valid neighbors per pick
+  neighborCounts: Map<string, number>;
+  // Non-empty regions, most members first
+  regions: NeighborRegion[];
+  // Size of the intersection of the other picks' neighborhoods if this pick were dropped
+  sharedWithout: Map<string, number>;
+};
+
+export type CompareOptions = {
+  isEdgeValid: (edge: string) => boolean;
+  isNodeValid: (node: string) => boolean;
+  // Never counted as neighbors (e.g. disliked titles)
+  exclude: Set<string>;
+};
+
+export const compareNeighborhoods = (graph: Graph, ids: string[], { isEdgeValid, isNodeValid, exclude }: CompareOptions): Comparison => {
+  const picks = ids.filter((id) => graph.hasNode(id)).slice(0, MAX_COMPARE);
+  const pickSet = new Set(picks);
+  // Neighbor -> (pick -> weight)
+  const ties = new Map<string, Map<string, number>>();
+  const neighborCounts = new Map<string, number>();
+
+  picks.forEach((pick) => {
+    let count = 0;
+    graph.forEachEdge(pick, (edge, attrs, source, target) => {
+      const neighbor = source === pick ? target : source;
+      if (pickSet.has(neighbor) || exclude.has(neighbor) || !isEdgeValid(edge) || !isNodeValid(neighbor)) return;
+      if (!ties.has(neighbor)) ties.set(neighbor, new Map());
+      const byPick = ties.get(neighbor)!;
+      if (!byPick.has(pick)) count++;
+      byPick.set(pick, Math.max(byPick.get(pick) || 0, Number(attrs.weight) || 0));
+    });
+    neighborCounts.set(pick, count);
+  });
+
+  const regionMap = new Map<string, { members: string[]; nodes: { id: string; total: number }[] }>();
+  ties.forEach((byPick, neighbor) => {
+    const members = picks.filter((p) => byPick.has(p));
+    const key = members.join('|');
+    if (!regionMap.has(key)) regionMap.set(key, { members, nodes: [] });
+    let total = 0;
+    byPick.forEach((w) => { total += w; });
+    regionMap.get(key)!.nodes.push({ id: neighbor, total });
+  });
+
+  const regions = Array.from(regionMap.values())
+    .map(({ members, nodes }) => ({
+      members,
+      nodes: nodes.sort((a, b) => b.total - a.total).map((n) => n.id),
+    }))
+    .sort((a, b) => b.members.length - a.members.length || b.nodes.length - a.nodes.length);
+
+  const sharedWithout = new Map<string, number>();
+  picks.forEach((dropped) => {
+    const rest = picks.filter((p) => p !== dropped);
+    let shared = 0;
+    ties.forEach((byPick) => { if (rest.length > 0 && rest.every((p) => byPick.has(p))) shared++; });
+    sharedWithout.set(dropped, shared);
+  });
+
+  return { ids: picks, neighborCounts, regions, sharedWithout };
+};
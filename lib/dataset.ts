@@ -0,0 +1,404 @@
+// ==========================================
+// Dataset loader
+// Fetches a versioned graph JSON from /public, validates it against the
+// declared node/edge schema and maps legacy field names onto RawNode/RawEdge.
+// ==========================================
+
+// --- Types ---
+export type RawNode = {
+  id: string;
+  title: string;
+  title_en?: string | null;
+  image_url: string;
+  // null when the dataset has no rating for the title (unrated, not rated 0)
+  score: number | null;
+  scored_by: number | null;
+  genres: string[];
+  // Alternative titles for search (romaji, abbreviations, old spellings)
+  aliases?: string[];
+  // Baked layout coordinates (scripts/bake-layout.ts)
+  x?: number;
+  y?: number;
+};
+
+export type RawEdge = {
+  source: string;
+  target: string;
+  strength: number;
+};
+
+export type GraphData = {
+  nodes: RawNode[];
+  edges: RawEdge[];
+};
+
+// --- Versions ---
+// How the browser downloads a dataset. The JSON at `path` is always there (the
+// server reads it); 'binary' adds the `.bin` next to it (npm run encode-graph)
+// and 'chunks' the split folder (npm run split-dataset).
+export type DatasetFormat = 'json' | 'binary' | 'chunks';
+
+export type DatasetInfo = { path: string; label: string; format: DatasetFormat };
+
+export const DATASETS: Record<'v1' | 'v2' | 'v3', DatasetInfo> = {
+  v1: { path: '/graph-data.json', label: 'MAL metadata (v1)', format: 'json' },
+  v2: { path: '/graph-data_v2.json', label: 'Co-occurrence v2', format: 'json' },
+  v3: { path: '/graph-data-v3.json', label: 'Co-occurrence v3', format: 'chunks' },
+};
+
+export type DatasetVersion = keyof typeof DATASETS;
+
+const isDatasetVersion = (v: unknown): v is DatasetVersion =>
+  typeof v === 'string' && Object.prototype.hasOwnProperty.call(DATASETS, v);
+
+// Build-time default, overridable with NEXT_PUBLIC_DATASET_VERSION.
+// v1 (graph-data.json) is not shipped in /public, so the default is the latest shipped dataset.
+export const DEFAULT_DATASET_VERSION: DatasetVersion = isDatasetVersion(process.env.NEXT_PUBLIC_DATASET_VERSION)
+  ? process.env.NEXT_PUBLIC_DATASET_VERSION
+  : 'v3';
+
+export const DATASET_QUERY_PARAM = 'dataset';
+
+// Picks the version from a `?dataset=` value, falling back to the configured default
+export const resolveDatasetVersion = (param?: string | string[] | null): DatasetVersion => {
+  const value = Array.isArray(param) ? param[0] : param;
+  return isDatasetVersion(value) ? value : DEFAULT_DATASET_VERSION;
+};
+
+// --- Schema ---
+type FieldType = 'id' | 'string' | 'number' | 'string[]';
+
+type FieldSpec = {
+  type: FieldType;
+  required?: boolean;
+  nullable?: boolean;
+  // Legacy names accepted for this field, in priority order
+  aliases?: string[];
+  fallback?: unknown;
+  // Field is new and older datasets simply lack it: leave it unset without a warning
+  omitWhenMissing?: boolean;
+};
+
+export const NODE_SCHEMA: Record<keyof RawNode, FieldSpec> = {
+  id: { type: 'id', required: true },
+  title: { type: 'string', required: true, aliases: ['label', 'name'] },
+  title_en: { type: 'string', nullable: true, aliases: ['titleEn', 'title_english'], fallback: null },
+  image_url: { type: 'string', aliases: ['coverImageUrl', 'imageUrl', 'main_picture'], fallback: '' },
+  score: { type: 'number', nullable: true, aliases: ['mean', 'rating'], fallback: null },
+  scored_by: { type: 'number', nullable: true, aliases: ['scoredBy', 'num_scoring_users'], fallback: null },
+  genres: { type: 'string[]', fallback: [] },
+  aliases: { type: 'string[]', aliases: ['synonyms', 'title_synonyms'], omitWhenMissing: true },
+  x: { type: 'number', omitWhenMissing: true },
+  y: { type: 'number', omitWhenMissing: true },
+};
+
+export const EDGE_SCHEMA: Record<keyof RawEdge, FieldSpec> = {
+  source: { type: 'id', required: true, aliases: ['from'] },
+  target: { type: 'id', required: true, aliases: ['to'] },
+  strength: { type: 'number', required: true, aliases: ['weight', 'count'] },
+};
+
+// Values the scraping pipeline writes when it has no data
+const PLACEHOLDER_VALUES = new Set(['[dummy]', '']);
+
+// --- Report ---
+export type DatasetIssueCode =
+  | 'missing-field'
+  | 'invalid-type'
+  | 'duplicate-id'
+  | 'dangling-edge'
+  | 'legacy-field'
+  | 'placeholder';
+
+export type DatasetIssue = {
+  severity: 'error' | 'warning';
+  code: DatasetIssueCode;
+  message: string;
+  count: number;
+  examples: string[];
+};
+
+export type DatasetReport = {
+  version?: DatasetVersion;
+  nodeCount: number;
+  edgeCount: number;
+  droppedNodes: number;
+  droppedEdges: number;
+  issues: DatasetIssue[];
+};
+
+export type LoadedDataset = {
+  version: DatasetVersion;
+  data: GraphData;
+  report: DatasetReport;
+};
+
+export class DatasetError extends Error {
+  constructor(message: string, public readonly report?: DatasetReport) {
+    super(message);
+    this.name = 'DatasetError';
+  }
+}
+
+const MAX_EXAMPLES = 5;
+
+// Groups repeated problems (e.g. 700 nodes missing `score`) into one issue
+class IssueCollector {
+  private issues = new Map<string, DatasetIssue>();
+
+  add(severity: DatasetIssue['severity'], code: DatasetIssueCode, message: string, example: string) {
+    const key = `${severity}|${code}|${message}`;
+    const issue = this.issues.get(key);
+    if (issue) {
+      issue.count++;
+      if (issue.examples.length < MAX_EXAMPLES) issue.examples.push(example);
+    } else {
+      this.issues.set(key, { severity, code, message, count: 1, examples: [example] });
+    }
+  }
+
+  list(): DatasetIssue[] {
+    return Array.from(this.issues.values()).sort((a, b) =>
+      a.severity === b.severity ? b.count - a.count : a.severity === 'error' ? -1 : 1
+    );
+  }
+}
+
+// --- Validation & Mapping ---
+const isPlaceholder = (v: unknown) => typeof v === 'string' && PLACEHOLDER_VALUES.has(v.trim());
+
+const coerce = (value: unknown, type: FieldType): { ok: boolean; value?: unknown } => {
+  switch (type) {
+    case 'id':
+      if (typeof value === 'string' && value.trim() !== '') return { ok: true, value: value.trim() };
+      if (typeof value === 'number' && Number.isFinite(value)) return { ok: true, value: String(value) };
+      return { ok: false };
+    case 'string':
+      return typeof value === 'string' ? { ok: true, value } : { ok: false };
+    case 'number': {
+      const n = typeof value === 'string' ? Number(value) : value;
+      return typeof n === 'number' && Number.isFinite(n) ? { ok: true, value: n } : { ok: false };
+    }
+    case 'string[]':
+      if (!Array.isArray(value)) return { ok: false };
+      return { ok: true, value: value.filter((v) => typeof v === 'string' && !isPlaceholder(v)) };
+  }
+};
+
+const mapRecord = <T>(
+  raw: unknown,
+  schema: Record<keyof T, FieldSpec>,
+  kind: 'node' | 'edge',
+  ref: string,
+  issues: IssueCollector
+): T | null => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    issues.add('error', 'invalid-type', `${kind} entry is not an object`, ref);
+    return null;
+  }
+  const record = raw as Record<string, unknown>;
+  const out: Record<string, unknown> = {};
+  let valid = true;
+
+  (Object.keys(schema) as (keyof T & string)[]).forEach((field) => {
+    const spec = schema[field];
+    let source: string | undefined = field in record ? field : undefined;
+    if (source === undefined && spec.aliases) {
+      source = spec.aliases.find((alias) => alias in record);
+      if (source !== undefined) {
+        issues.add('warning', 'legacy-field', `${kind} field "${source}" mapped to "${field}"`, ref);
+      }
+    }
+
+    const value = source === undefined ? undefined : record[source];
+    if (value === undefined && spec.omitWhenMissing) return;
+    if (value === undefined || (value === null && !spec.nullable) || isPlaceholder(value)) {
+      if (spec.required) {
+        issues.add('error', 'missing-field', `${kind} is missing required field "${field}"`, ref);
+        valid = false;
+      } else {
+        if (value !== undefined) {
+          issues.add('warning', 'placeholder', `${kind} field "${field}" holds a placeholder value`, ref);
+        } else {
+          issues.add('warning', 'missing-field', `${kind} is missing optional field "${field}"`, ref);
+        }
+        out[field] = Array.isArray(spec.fallback) ? [] : spec.fallback;
+      }
+      return;
+    }
+    if (value === null) {
+      out[field] = null;
+      return;
+    }
+
+    const result = coerce(value, spec.type);
+    if (!result.ok) {
+      issues.add('error', 'invalid-type', `${kind} field "${field}" is not a valid ${spec.type}`, ref);
+      if (spec.required) valid = false;
+      else out[field] = Array.isArray(spec.fallback) ? [] : spec.fallback;
+      return;
+    }
+    out[field] = result.value;
+  });
+
+  return valid ? (out as T) : null;
+};
+
+const collectEdges = (rawEdges: unknown[], nodeIds: Set<string>, issues: IssueCollector): RawEdge[] => {
+  const edges: RawEdge[] = [];
+  const edgeKeys = new Set<string>();
+
+  rawEdges.forEach((raw, i) => {
+    const ref = raw && typeof raw === 'object' && 'id' in raw ? `edge ${String((raw as { id: unknown }).id)}` : `edges[${i}]`;
+    const edge = mapRecord<RawEdge>(raw, EDGE_SCHEMA, 'edge', ref, issues);
+    if (!edge) return;
+    const missing = [edge.source, edge.target].filter((id) => !nodeIds.has(id));
+    if (missing.length > 0) {
+      issues.add('error', 'dangling-edge', 'edge endpoint does not match any node id', `${ref} (${missing.join(', ')})`);
+      return;
+    }
+    const key = edge.source < edge.target ? `${edge.source}|${edge.target}` : `${edge.target}|${edge.source}`;
+    if (edgeKeys.has(key)) {
+      issues.add('error', 'duplicate-id', 'duplicate edge between the same nodes (later entry dropped)', ref);
+      return;
+    }
+    edgeKeys.add(key);
+    edges.push(edge);
+  });
+  return edges;
+};
+
+// Validates an already-parsed payload. Throws DatasetError only when nothing usable remains.
+export const parseDataset = (json: unknown, version?: DatasetVersion): { data: GraphData; report: DatasetReport } => {
+  if (!json || typeof json !== 'object') {
+    throw new DatasetError('Dataset payload is not a JSON object');
+  }
+  const { nodes: rawNodes, edges: rawEdges } = json as { nodes?: unknown; edges?: unknown };
+  if (!Array.isArray(rawNodes)) throw new DatasetError('Dataset is missing a "nodes" array');
+  if (!Array.isArray(rawEdges)) throw new DatasetError('Dataset is missing an "edges" array');
+
+  const issues = new IssueCollector();
+  const nodes: RawNode[] = [];
+  const nodeIds = new Set<string>();
+
+  rawNodes.forEach((raw, i) => {
+    const ref = raw && typeof raw === 'object' && 'id' in raw ? `node ${String((raw as { id: unknown }).id)}` : `nodes[${i}]`;
+    const node = mapRecord<RawNode>(raw, NODE_SCHEMA, 'node', ref, issues);
+    if (!node) return;
+    if (nodeIds.has(node.id)) {
+      issues.add('error', 'duplicate-id', 'duplicate node id (later entry dropped)', node.id);
+      return;
+    }
+    nodeIds.add(node.id);
+    nodes.push(node);
+  });
+
+  const edges = collectEdges(rawEdges, nodeIds, issues);
+
+  const report: DatasetReport = {
+    version,
+    nodeCount: nodes.length,
+    edgeCount: edges.length,
+    droppedNodes: rawNodes.length - nodes.length,
+    droppedEdges: rawEdges.length - edges.length,
+    issues: issues.list(),
+  };
+
+  if (nodes.length === 0) {
+    throw new DatasetError('Dataset contains no valid nodes', report);
+  }
+
+  return { data: { nodes, edges }, report };
+};
+
+// Validates a file holding only edges (a chunk of a split dataset) against already known node ids
+export const parseEdgeShard = (json: unknown, nodeIds: Set<string>, version?: DatasetVersion): { edges: RawEdge[]; report: DatasetReport } => {
+  const rawEdges = json && typeof json === 'object' ? (json as { edges?: unknown }).edges : undefined;
+  if (!Array.isArray(rawEdges)) throw new DatasetError('Edge shard is missing an "edges" array');
+  const issues = new IssueCollector();
+  const edges = collectEdges(rawEdges, nodeIds, issues);
+  return {
+    edges,
+    report: {
+      version,
+      nodeCount: 0,
+      edgeCount: edges.length,
+      droppedNodes: 0,
+      droppedEdges: rawEdges.length - edges.length,
+      issues: issues.list(),
+    },
+  };
+};
+
+export const formatDatasetReport = (report: DatasetReport): string => {
+  const header = `Dataset ${report.version ?? ''}: ${report.nodeCount} nodes, ${report.edgeCount} edges` +
+    ` (dropped ${report.droppedNodes} nodes, ${report.droppedEdges} edges)`;
+  const lines = report.issues.map((issue) =>
+    `  [${issue.severity}] ${issue.message} ×${issue.count} — e.g. ${issue.examples.join('; ')}`
+  );
+  return [header, ...lines].join('\n');
+};
+
+export const logDatasetReport = (report: DatasetReport) => {
+  if (report.issues.length === 0) return;
+  const hasErrors = report.issues.some((i) => i.severity === 'error');
+  const text = formatDatasetReport(report);
+  if (hasErrors) console.error(text);
+  else console.warn(text);
+};
+
+// Downloads a file, reporting the received fraction (0-1) when the size is known
+export const fetchBytes = async (
+  path: string,
+  describe: string,
+  onProgress?: (fraction: number) => void
+): Promise<Uint8Array> => {
+  const res = await fetch(path);
+  if (!res.ok) {
+    throw new DatasetError(`${describe} could not be loaded from ${path} (HTTP ${res.status})`);
+  }
+  const total = Number(res.headers.get('content-length')) || 0;
+  if (!onProgress || total === 0 || !res.body) return new Uint8Array(await res.arrayBuffer());
+
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+    // Compressed responses report the encoded size, so clamp
+    onProgress(Math.min(1, received / total));
+  }
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return bytes;
+};
+
+export const fetchJson = async (
+  path: string,
+  describe: string,
+  onProgress?: (fraction: number) => void
+): Promise<unknown> => {
+  const text = new TextDecoder().decode(await fetchBytes(path, describe, onProgress));
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new DatasetError(`${describe} at ${path} is not valid JSON`);
+  }
+};
+
+export const loadDataset = async (
+  version: DatasetVersion = DEFAULT_DATASET_VERSION,
+  onProgress?: (fraction: number) => void
+): Promise<LoadedDataset> => {
+  const json = await fetchJson(DATASETS[version].path, `Dataset "${version}"`, onProgress);
+  const { data, report } = parseDataset(json, version);
+  logDatasetReport(report);
+  return { version, data, report };
+};
@@ -0,0 +1,149 @@
+// ==========================================
+// Adaptive discovery rounds
+// Each round picks tiles that (a) spread over communities and genres not
+// shown yet and (b) once something is liked, sit close to the likes in the
+// graph. Skips push their community and genres down; "don't know" is neutral.
+// Tiles are never shown twice in a browser session: the ids shown so far are
+// kept in sessionStorage, so closing the modal or reloading doesn't bring them back.
+// ==========================================
+
+export type DiscoveryItem = {
+  id: string;
+  genres: string[];
+  community?: number;
+  // Quality used to order otherwise equal candidates (e.g. a Bayesian rating)
+  quality: number;
+};
+
+export type DiscoveryAnswer = 'like' | 'skip' | 'unknown';
+
+export type DiscoverySession = {
+  round: number;
+  // Every tile shown so far, in order
+  seen: string[];
+  answers: Map<string, DiscoveryAnswer>;
+};
+
+export type DiscoveryOptions = {
+  size: number;
+  // Co-occurrence neighbors with weights in 0-1 (1 = that title's strongest tie)
+  neighbors: (id: string) => Map<string, number>;
+  random?: () => number;
+};
+
+export const DISCOVERY_ROUND_SIZE = 12;
+export const DISCOVERY_MAX_ROUNDS = 4;
+// Share of a round given to titles near the likes once there are any
+const EXPLOIT_SHARE = 0.5;
+const NOVELTY_WEIGHT = 1;
+const AFFINITY_WEIGHT = 2;
+const SKIP_PENALTY = 0.5;
+const QUALITY_WEIGHT = 0.3;
+// Small jitter so sessions differ
+const JITTER = 0.15;
+
+const IGNORED_GENRES = new Set(['Award Winning', '[dummy]']);
+
+const SEEN_STORAGE_KEY = 'manga-nexus:discovery-seen';
+
+// Tiles shown in earlier runs of this browser session
+export const loadSeenTiles = (): string[] => {
+  try {
+    const json: unknown = JSON.parse(sessionStorage.getItem(SEEN_STORAGE_KEY) || '[]');
+    return Array.isArray(json) ? json.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const storeSeenTiles = (ids: string[]) => {
+  try {
+    if (ids.length > 0) sessionStorage.setItem(SEEN_STORAGE_KEY, JSON.stringify(ids));
+    else sessionStorage.removeItem(SEEN_STORAGE_KEY);
+  } catch (e) {
+    console.error('Failed to save discovery tiles', e);
+  }
+};
+
+// `seen` carries tiles from earlier runs so they are not offered again
+export const createDiscoverySession = (seen: string[] = []): DiscoverySession => ({ round: 0, seen, answers: new Map() });
+
+const countBy = <K>(keys: K[]) => {
+  const counts = new Map<K, number>();
+  keys.forEach((k) => counts.set(k, (counts.get(k) || 0) + 1));
+  return counts;
+};
+
+// Likes in the order they were given, including the current round
+export const likedIds = (session: DiscoverySession) =>
+  Array.from(session.answers).filter(([, answer]) => answer === 'like').map(([id]) => id);
+
+export const nextDiscoveryRound = (
+  items: DiscoveryItem[],
+  session: DiscoverySession,
+  { size, neighbors, random = Math.random }: DiscoveryOptions
+): string[] => {
+  const byId = new Map(items.map((item) => [item.id, item]));
+  const seen = new Set(session.seen);
+  const shownItems = session.seen.map((id) => byId.get(id)).filter((i): i is DiscoveryItem => !!i);
+  const answered = (answer: DiscoveryAnswer) => shownItems.filter((i) => session.answers.get(i.id) === answer);
+
+  // Coverage so far; communities and genres never shown are the most novel
+  const shownCommunities = countBy(shownItems.map((i) => i.community));
+  const shownGenres = countBy(shownItems.flatMap((i) => i.genres));
+  const skippedCommunities = countBy(answered('skip').map((i) => i.community));
+  const skippedGenres = countBy(answered('skip').flatMap((i) => i.genres));
+
+  // Affinity: strongest tie to any liked title
+  const affinity = new Map<string, number>();
+  answered('like').forEach(({ id }) => {
+    neighbors(id).forEach((w, neighbor) => affinity.set(neighbor, Math.max(affinity.get(neighbor) || 0, w)));
+  });
+
+  const maxQuality = Math.max(1, ...items.map((i) => i.quality));
+  const candidates = items.filter((i) => !seen.has(i.id));
+  const base = new Map(candidates.map((i) => [i.id, QUALITY_WEIGHT * (i.quality / maxQuality) + JITTER * random()]));
+
+  const picked: DiscoveryItem[] = [];
+  const roundCommunities = new Map<number | undefined, number>();
+  const roundGenres = new Map<string, number>();
+  const take = (count: number, score: (item: DiscoveryItem) => number) => {
+    for (let n = 0; n < count; n++) {
+      let best: DiscoveryItem | null = null;
+      let bestScore = -Infinity;
+      candidates.forEach((item) => {
+        if (picked.includes(item)) return;
+        const s = score(item);
+        if (s > bestScore) { best = item; bestScore = s; }
+      });
+      if (!best) return;
+      const chosen: DiscoveryItem = best;
+      picked.push(chosen);
+      roundCommunities.set(chosen.community, (roundCommunities.get(chosen.community) || 0) + 1);
+      chosen.genres.forEach((g) => roundGenres.set(g, (roundGenres.get(g) || 0) + 1));
+    }
+  };
+
+  // Diminishing returns for repeating a community or genre within and across rounds
+  const novelty = (item: DiscoveryItem) => {
+    const community = 1 / (1 + (shownCommunities.get(item.community) || 0) + 2 * (roundCommunities.get(item.community) || 0));
+    const genres = item.genres.filter((g) => !IGNORED_GENRES.has(g));
+    const genre = genres.length === 0
+      ? 0
+      : Math.max(...genres.map((g) => 1 / (1 + (shownGenres.get(g) || 0) + 2 * (roundGenres.get(g) || 0))));
+    return (community + genre) / 2;
+  };
+  const skipPenalty = (item: DiscoveryItem) =>
+    SKIP_PENALTY * Math.min(1, (skippedCommunities.get(item.community) || 0) / 2 +
+      Math.max(0, ...item.genres.map((g) => (skippedGenres.get(g) || 0) / 3)));
+
+  const explore = (item: DiscoveryItem) => base.get(item.id)! + NOVELTY_WEIGHT * novelty(item) - skipPenalty(item);
+  const exploit = (item: DiscoveryItem) =>
+    base.get(item.id)! + AFFINITY_WEIGHT * (affinity.get(item.id) || 0) + 0.5 * NOVELTY_WEIGHT * novelty(item) - skipPenalty(item);
+
+  const exploitCount = affinity.size > 0 ? Math.round(size * EXPLOIT_SHARE) : 0;
+  take(exploitCount, (item) => (affinity.has(item.id) ? exploit(item) : -Infinity));
+  take(size - picked.length, explore);
+
+  return picked.map((i) => i.id);
+};
@@ -0,0 +1,107 @@
+import Graph from 'graphology';
+
+// ==========================================
+// Edge strength normalization
+// Raw `strength` is a co-occurrence count (v2/v3) or a pre-scaled 0-1 value (v1).
+// Every method writes a 0-1 `weight` attribute that the filters and layout read.
+// ==========================================
+
+export type StrengthMethod = 'max' | 'log' | 'jaccard' | 'cosine' | 'pmi';
+
+export const STRENGTH_METHODS: { id: StrengthMethod; label: string; description: string }[] = [
+  { id: 'max', label: 'Max', description: 'Count divided by the largest count' },
+  { id: 'log', label: 'Log', description: 'Log-scaled count, dampens very popular pairs' },
+  { id: 'jaccard', label: 'Jaccard', description: 'Shared mentions relative to both titles\' total mentions' },
+  { id: 'cosine', label: 'Cosine', description: 'Count over the geometric mean of both titles\' totals' },
+  { id: 'pmi', label: 'PMI', description: 'Normalized pointwise mutual information (co-occurrence beyond chance)' },
+];
+
+export const DEFAULT_STRENGTH_METHOD: StrengthMethod = 'max';
+
+// Slider range and label thresholds derived from the normalized distribution
+export type StrengthScale = {
+  max: number;
+  step: number;
+  // Values below `normal` read as Broad, below `strict` as Normal, the rest as Strict
+  normal: number;
+  strict: number;
+};
+
+export const DEFAULT_STRENGTH_SCALE: StrengthScale = { max: 0.5, step: 0.01, normal: 0.15, strict: 0.3 };
+
+const SCALE_MAX_QUANTILE = 0.99;
+const SCALE_NORMAL_QUANTILE = 0.5;
+const SCALE_STRICT_QUANTILE = 0.85;
+const SLIDER_STEPS = 100;
+
+const quantile = (sorted: number[], q: number) =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.floor(q * (sorted.length - 1))))];
+
+// Round to two significant digits so the slider steps stay readable
+const niceStep = (raw: number) => (raw > 0 ? Number(raw.toPrecision(2)) : DEFAULT_STRENGTH_SCALE.step);
+
+export const computeStrengthScale = (weights: number[]): StrengthScale => {
+  const sorted = weights.filter((w) => w > 0).sort((a, b) => a - b);
+  if (sorted.length === 0) return DEFAULT_STRENGTH_SCALE;
+
+  const step = niceStep(quantile(sorted, SCALE_MAX_QUANTILE) / SLIDER_STEPS);
+  const max = Math.max(step, Number((Math.ceil(quantile(sorted, SCALE_MAX_QUANTILE) / step) * step).toPrecision(6)));
+  const normal = Math.min(quantile(sorted, SCALE_NORMAL_QUANTILE), max);
+  const strict = Math.min(Math.max(quantile(sorted, SCALE_STRICT_QUANTILE), normal), max);
+  return { max, step, normal, strict };
+};
+
+export const getStrengthLabel = (value: number, scale: StrengthScale) =>
+  value < scale.normal ? 'Broad' : value < scale.strict ? 'Normal' : 'Strict';
+
+// Rewrites every edge's `weight` from its raw `strength` and returns the resulting scale
+export const normalizeEdgeStrengths = (graph: Graph, method: StrengthMethod): StrengthScale => {
+  if (graph.size === 0) return DEFAULT_STRENGTH_SCALE;
+
+  // Weighted degree (sum of raw counts) per node, and the global total
+  const totals = new Map<string, number>();
+  let total = 0;
+  let maxStrength = 0;
+  graph.forEachEdge((_edge, attrs, source, target) => {
+    const w = Math.max(0, Number(attrs.strength) || 0);
+    totals.set(source, (totals.get(source) || 0) + w);
+    totals.set(target, (totals.get(target) || 0) + w);
+    total += w;
+    maxStrength = Math.max(maxStrength, w);
+  });
+
+  const normalize = (w: number, source: string, target: string): number => {
+    if (w <= 0) return 0;
+    const si = totals.get(source) || 0;
+    const sj = totals.get(target) || 0;
+    switch (method) {
+      case 'max':
+        return w / (maxStrength || 1);
+      case 'log':
+        return Math.log1p(w) / (Math.log1p(maxStrength) || 1);
+      case 'jaccard':
+        return w / (si + sj - w || 1);
+      case 'cosine':
+        return w / (Math.sqrt(si * sj) || 1);
+      case 'pmi': {
+        // Each edge counts once per direction, so joint and marginals are over 2 * total
+        const pij = w / (2 * total);
+        const pmi = Math.log(pij / ((si / (2 * total)) * (sj / (2 * total))));
+        const bound = -Math.log(pij);
+        // A pair that makes up every co-occurrence is perfectly associated (NPMI's limit is 1)
+        if (bound <= 0) return 1;
+        const npmi = pmi / bound;
+        return Number.isFinite(npmi) ? Math.min(1, Math.max(0, npmi)) : 0;
+      }
+    }
+  };
+
+  const weights: number[] = [];
+  graph.forEachEdge((edge, attrs, source, target) => {
+    const weight = normalize(Math.max(0, Number(attrs.strength) || 0), source, target);
+    graph.setEdgeAttribute(edge, 'weight', weight);
+    weights.push(weight);
+  });
+
+  return computeStrengthScale(weights);
+};
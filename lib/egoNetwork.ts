@@ -0,0 +1,77 @@
+import Graph from 'graphology';
+
+// ==========================================
+// Ego-network expansion
+// Grows the recommendation set outward hop by hop ("friend of a friend").
+// Each hop keeps only the candidates most strongly tied to the previous hop,
+// weighted by how relevant those parents were.
+// ==========================================
+
+export const MAX_EGO_DEPTH = 3;
+export const DEFAULT_EGO_HOP_CAP = 25;
+
+export type EgoOptions = {
+  // 2 or 3; hop 1 is the regular recommendation set passed in as `firstHop`
+  depth: number;
+  // Maximum number of new nodes added per hop beyond the first
+  perHopCap: number;
+  isEdgeValid: (edge: string) => boolean;
+  isNodeValid: (node: string) => boolean;
+  // Never expanded into (seeds, disliked titles, ...)
+  exclude: Set<string>;
+};
+
+export type EgoNode = {
+  hop: number;
+  // Relevance in 0-1 within its hop, before any fading
+  score: number;
+  // Strongest parent in the previous hop and the edge to it, for drawing the expansion
+  parent: string;
+  edge: string;
+};
+
+export const expandEgoNetwork = (
+  graph: Graph,
+  firstHop: Map<string, number>,
+  { depth, perHopCap, isEdgeValid, isNodeValid, exclude }: EgoOptions
+): Map<string, EgoNode> => {
+  const result = new Map<string, EgoNode>();
+  const seen = new Set<string>([...exclude, ...firstHop.keys()]);
+  let frontier = firstHop;
+
+  for (let hop = 2; hop <= Math.min(depth, MAX_EGO_DEPTH) && frontier.size > 0; hop++) {
+    const scores = new Map<string, { score: number; parent: string; edge: string; best: number }>();
+    frontier.forEach((parentScore, parent) => {
+      if (!graph.hasNode(parent)) return;
+      graph.forEachEdge(parent, (edge, attrs, source, target) => {
+        const neighbor = source === parent ? target : source;
+        if (seen.has(neighbor) || !isEdgeValid(edge) || !isNodeValid(neighbor)) return;
+        const contribution = parentScore * (Number(attrs.weight) || 0);
+        if (contribution <= 0) return;
+        const entry = scores.get(neighbor) ?? { score: 0, parent, edge, best: 0 };
+        entry.score += contribution;
+        if (contribution > entry.best) {
+          entry.best = contribution;
+          entry.parent = parent;
+          entry.edge = edge;
+        }
+        scores.set(neighbor, entry);
+      });
+    });
+
+    const kept = Array.from(scores.entries())
+      .sort((a, b) => b[1].score - a[1].score)
+      .slice(0, perHopCap);
+    const top = kept[0]?.[1].score || 1;
+
+    frontier = new Map();
+    kept.forEach(([id, { score, parent, edge }]) => {
+      const normalized = score / top;
+      result.set(id, { hop, score: normalized, parent, edge });
+      frontier.set(id, normalized);
+      seen.add(id);
+    });
+  }
+
+  return result;
+};
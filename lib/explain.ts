@@ -0,0 +1,86 @@
+import Graph from 'graphology';
+
+// ==========================================
+// Recommendation explanations
+// Breaks a candidate's relevance down per pick: the edge that ties them,
+// its raw co-occurrence count, where the candidate ranks among that pick's
+// neighbors, and the genres they share.
+// ==========================================
+
+export type SeedContribution = {
+  seed: string;
+  edge: string;
+  // Raw co-occurrence count from the dataset
+  strength: number;
+  // Weight after the current strength method (what ranking uses)
+  weight: number;
+  // 1-based position among the seed's valid neighbors by weight
+  rank: number;
+  neighborCount: number;
+  sharedGenres: string[];
+};
+
+export type Explanation = {
+  target: string;
+  // Strongest contribution first; picks without a valid edge to the target are left out
+  contributions: SeedContribution[];
+  // Picks the target has no (valid) direct tie to
+  unconnectedSeeds: string[];
+};
+
+export type ExplainOptions = {
+  isEdgeValid: (edge: string) => boolean;
+  isNodeValid: (node: string) => boolean;
+};
+
+// Genres that carry no meaning for "why" (flags and placeholders)
+const IGNORED_GENRES = new Set(['Award Winning', '[dummy]']);
+
+const genresOf = (graph: Graph, node: string) =>
+  ((graph.getNodeAttribute(node, 'genres') as string[]) || []).filter((g) => !IGNORED_GENRES.has(g));
+
+// Position of `target` among `seed`'s neighbors over valid edges, by weight
+const neighborRank = (graph: Graph, seed: string, target: string, weight: number, options: ExplainOptions) => {
+  let rank = 1;
+  let neighborCount = 0;
+  graph.forEachEdge(seed, (edge, attrs, source, other) => {
+    const neighbor = source === seed ? other : source;
+    if (!options.isEdgeValid(edge) || !options.isNodeValid(neighbor)) return;
+    neighborCount++;
+    if (neighbor !== target && (Number(attrs.weight) || 0) > weight) rank++;
+  });
+  return { rank, neighborCount: Math.max(neighborCount, rank) };
+};
+
+export const explainRecommendation = (
+  graph: Graph,
+  target: string,
+  seeds: string[],
+  options: ExplainOptions
+): Explanation => {
+  const contributions: SeedContribution[] = [];
+  const unconnectedSeeds: string[] = [];
+  const targetGenres = new Set(graph.hasNode(target) ? genresOf(graph, target) : []);
+
+  seeds.forEach((seed) => {
+    if (seed === target || !graph.hasNode(seed) || !graph.hasNode(target)) return;
+    const edge = graph.edge(seed, target) ?? graph.edge(target, seed);
+    if (!edge || !options.isEdgeValid(edge)) {
+      unconnectedSeeds.push(seed);
+      return;
+    }
+    const attrs = graph.getEdgeAttributes(edge);
+    const weight = Number(attrs.weight) || 0;
+    contributions.push({
+      seed,
+      edge,
+      strength: Number(attrs.strength) || 0,
+      weight,
+      ...neighborRank(graph, seed, target, weight, options),
+      sharedGenres: genresOf(graph, seed).filter((g) => targetGenres.has(g)),
+    });
+  });
+
+  contributions.sort((a, b) => b.weight - a.weight);
+  return { target, contributions, unconnectedSeeds };
+};
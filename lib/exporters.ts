@@ -0,0 +1,174 @@
+// ==========================================
+// Export formats
+// Serializers for the visible subgraph (JSON / GEXF / GraphML) and the
+// Related list (CSV). Everything runs in the browser and ends in a download.
+// ==========================================
+
+export type ExportNode = {
+  id: string;
+  title: string;
+  title_en?: string | null;
+  // null for unrated titles (left out of GEXF/GraphML, empty in CSV)
+  score: number | null;
+  scored_by: number | null;
+  genres: string[];
+  x?: number;
+  y?: number;
+  size?: number;
+  color?: string;
+  selected?: boolean;
+  relevance?: number;
+};
+
+export type ExportEdge = {
+  source: string;
+  target: string;
+  strength: number;
+  weight: number;
+};
+
+export type ExportSubgraph = {
+  nodes: ExportNode[];
+  edges: ExportEdge[];
+};
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const hexToRgb = (hex: string) => {
+  const m = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  return m ? { r: parseInt(m[1], 16), g: parseInt(m[2], 16), b: parseInt(m[3], 16) } : null;
+};
+
+export const toJson = (subgraph: ExportSubgraph): string =>
+  JSON.stringify({ exportedAt: new Date().toISOString(), ...subgraph }, null, 2);
+
+export const toGexf = ({ nodes, edges }: ExportSubgraph): string => {
+  const nodeXml = nodes.map((n) => {
+    const rgb = n.color ? hexToRgb(n.color) : null;
+    return [
+      `      <node id="${escapeXml(n.id)}" label="${escapeXml(n.title_en || n.title)}">`,
+      '        <attvalues>',
+      `          <attvalue for="title" value="${escapeXml(n.title)}"/>`,
+      n.score !== null ? `          <attvalue for="score" value="${n.score}"/>` : '',
+      n.scored_by !== null ? `          <attvalue for="scored_by" value="${n.scored_by}"/>` : '',
+      `          <attvalue for="genres" value="${escapeXml(n.genres.join('|'))}"/>`,
+      `          <attvalue for="selected" value="${Boolean(n.selected)}"/>`,
+      n.relevance !== undefined ? `          <attvalue for="relevance" value="${n.relevance}"/>` : '',
+      '        </attvalues>',
+      n.x !== undefined && n.y !== undefined ? `        <viz:position x="${n.x}" y="${n.y}" z="0"/>` : '',
+      n.size !== undefined ? `        <viz:size value="${n.size}"/>` : '',
+      rgb ? `        <viz:color r="${rgb.r}" g="${rgb.g}" b="${rgb.b}"/>` : '',
+      '      </node>',
+    ].filter(Boolean).join('\n');
+  });
+  const edgeXml = edges.map((e, i) =>
+    `      <edge id="${i}" source="${escapeXml(e.source)}" target="${escapeXml(e.target)}" weight="${e.weight}">` +
+    `<attvalues><attvalue for="strength" value="${e.strength}"/></attvalues></edge>`
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">
+  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}">
+    <creator>Manga Nexus</creator>
+  </meta>
+  <graph defaultedgetype="undirected">
+    <attributes class="node">
+      <attribute id="title" title="title" type="string"/>
+      <attribute id="score" title="score" type="double"/>
+      <attribute id="scored_by" title="scored_by" type="integer"/>
+      <attribute id="genres" title="genres" type="string"/>
+      <attribute id="selected" title="selected" type="boolean"/>
+      <attribute id="relevance" title="relevance" type="double"/>
+    </attributes>
+    <attributes class="edge">
+      <attribute id="strength" title="strength" type="double"/>
+    </attributes>
+    <nodes>
+${nodeXml.join('\n')}
+    </nodes>
+    <edges>
+${edgeXml.join('\n')}
+    </edges>
+  </graph>
+</gexf>
+`;
+};
+
+export const toGraphml = ({ nodes, edges }: ExportSubgraph): string => {
+  const data = (key: string, value: string | number | boolean | undefined | null) =>
+    value === undefined || value === null ? '' : `<data key="${key}">${escapeXml(String(value))}</data>`;
+  const nodeXml = nodes.map((n) =>
+    `    <node id="${escapeXml(n.id)}">` +
+    data('title', n.title) + data('title_en', n.title_en) + data('score', n.score) +
+    data('scored_by', n.scored_by) + data('genres', n.genres.join('|')) + data('selected', Boolean(n.selected)) +
+    data('relevance', n.relevance) + data('x', n.x) + data('y', n.y) +
+    '</node>'
+  );
+  const edgeXml = edges.map((e) =>
+    `    <edge source="${escapeXml(e.source)}" target="${escapeXml(e.target)}">` +
+    data('strength', e.strength) + data('weight', e.weight) + '</edge>'
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+  <key id="title" for="node" attr.name="title" attr.type="string"/>
+  <key id="title_en" for="node" attr.name="title_en" attr.type="string"/>
+  <key id="score" for="node" attr.name="score" attr.type="double"/>
+  <key id="scored_by" for="node" attr.name="scored_by" attr.type="int"/>
+  <key id="genres" for="node" attr.name="genres" attr.type="string"/>
+  <key id="selected" for="node" attr.name="selected" attr.type="boolean"/>
+  <key id="relevance" for="node" attr.name="relevance" attr.type="double"/>
+  <key id="x" for="node" attr.name="x" attr.type="double"/>
+  <key id="y" for="node" attr.name="y" attr.type="double"/>
+  <key id="strength" for="edge" attr.name="strength" attr.type="double"/>
+  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>
+  <graph id="manga-nexus" edgedefault="undirected">
+${nodeXml.join('\n')}
+${edgeXml.join('\n')}
+  </graph>
+</graphml>
+`;
+};
+
+const csvCell = (value: string | number | null | undefined) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Related list, best match first
+export const toRelatedCsv = (nodes: ExportNode[]): string => {
+  const header = ['rank', 'id', 'title', 'title_en', 'relevance', 'score', 'scored_by', 'genres'];
+  const rows = nodes.map((n, i) => [
+    i + 1,
+    n.id,
+    n.title,
+    n.title_en ?? '',
+    n.relevance !== undefined ? n.relevance.toFixed(4) : '',
+    n.score,
+    n.scored_by,
+    n.genres.join('|'),
+  ]);
+  // BOM so spreadsheet apps read the Japanese titles as UTF-8
+  return '\uFEFF' + [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+};
+
+export const downloadBlob = (content: Blob | string, filename: string, type = 'text/plain') => {
+  const blob = typeof content === 'string' ? new Blob([content], { type: `${type};charset=utf-8` }) : content;
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const exportFileName = (kind: string, ext: string) =>
+  `manga-nexus-${kind}-${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}.${ext}`;
@@ -0,0 +1,63 @@
+// ==========================================
+// Genre filter
+// Each genre can be included (a title needs at least one included genre),
+// required (a title needs all of them) or excluded (a title may have none).
+// In links, required genres are prefixed with "+" and excluded ones with "-".
+// ==========================================
+
+export type GenreMode = 'include' | 'require' | 'exclude';
+
+export type GenreFilter = Map<string, GenreMode>;
+
+export const GENRE_MODES: { id: GenreMode; label: string; description: string }[] = [
+  { id: 'include', label: 'Any', description: 'Has at least one of these genres' },
+  { id: 'require', label: 'Must', description: 'Has every one of these genres' },
+  { id: 'exclude', label: 'Not', description: 'Has none of these genres' },
+];
+
+const PREFIXES: Record<GenreMode, string> = { include: '', require: '+', exclude: '-' };
+
+export const matchesGenreFilter = (genres: string[] | undefined, filter: GenreFilter): boolean => {
+  if (filter.size === 0) return true;
+  const has = new Set(genres || []);
+  let hasIncluded = false;
+  let needsIncluded = false;
+  for (const [genre, mode] of filter) {
+    if (mode === 'require' && !has.has(genre)) return false;
+    if (mode === 'exclude' && has.has(genre)) return false;
+    if (mode === 'include') {
+      needsIncluded = true;
+      if (has.has(genre)) hasIncluded = true;
+    }
+  }
+  return !needsIncluded || hasIncluded;
+};
+
+// Sets (or with null, clears) one genre's mode, returning a new filter
+export const setGenreMode = (filter: GenreFilter, genre: string, mode: GenreMode | null): GenreFilter => {
+  const next = new Map(filter);
+  if (mode) next.set(genre, mode);
+  else next.delete(genre);
+  return next;
+};
+
+export const countGenreModes = (filter: GenreFilter): Record<GenreMode, number> => {
+  const counts: Record<GenreMode, number> = { include: 0, require: 0, exclude: 0 };
+  filter.forEach((mode) => { counts[mode]++; });
+  return counts;
+};
+
+export const parseGenreFilter = (items: string[]): GenreFilter => {
+  const filter: GenreFilter = new Map();
+  items.forEach((item) => {
+    const mode = item.startsWith('+') ? 'require' : item.startsWith('-') ? 'exclude' : 'include';
+    const genre = (mode === 'include' ? item : item.slice(1)).trim();
+    if (genre) filter.set(genre, mode);
+  });
+  return filter;
+};
+
+export const formatGenreFilter = (filter: GenreFilter): string[] =>
+  Array.from(filter.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([genre, mode]) => PREFIXES[mode] + genre);
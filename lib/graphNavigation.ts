@@ -0,0 +1,95 @@
+import Graph from 'graphology';
+
+// ==========================================
+// Keyboard graph navigation
+// Helpers behind the keyboard cursor on the canvas and the outline view:
+// which visible titles are linked to a title, which one lies in the direction
+// of an arrow key, and where the cursor starts.
+// ==========================================
+
+export type NavDirection = 'up' | 'down' | 'left' | 'right';
+
+export const ARROW_DIRECTIONS: Record<string, NavDirection> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+};
+
+export type VisibleNeighbor = { id: string; edge: string; weight: number };
+
+export type ScreenPoint = { id: string; x: number; y: number };
+
+// Angle of each arrow in viewport coordinates (y grows downward)
+const DIRECTION_ANGLES: Record<NavDirection, number> = {
+  right: 0,
+  down: Math.PI / 2,
+  left: Math.PI,
+  up: -Math.PI / 2,
+};
+// Titles further than this off the arrow's axis are never picked (60°)
+const DIRECTION_CONE = Math.PI / 3;
+// Sideways drift costs this much extra distance per radian
+const ANGLE_PENALTY = 2;
+
+// Visible titles joined to `node` by an edge at or above the strength threshold, strongest first
+export const visibleNeighbors = (
+  graph: Graph,
+  node: string,
+  isVisible: (node: string) => boolean,
+  minStrength: number
+): VisibleNeighbor[] => {
+  if (!graph.hasNode(node)) return [];
+  const best = new Map<string, VisibleNeighbor>();
+  graph.forEachEdge(node, (edge, attrs, source, target) => {
+    const id = source === node ? target : source;
+    const weight = attrs.weight || 0;
+    if (id === node || weight < minStrength || !isVisible(id)) return;
+    if ((best.get(id)?.weight ?? -1) < weight) best.set(id, { id, edge, weight });
+  });
+  return Array.from(best.values()).sort((a, b) => b.weight - a.weight);
+};
+
+// The candidate closest to `from` along the arrow's direction, trading distance against drift
+export const pickInDirection = (from: ScreenPoint, candidates: ScreenPoint[], direction: NavDirection): string | null => {
+  const axis = DIRECTION_ANGLES[direction];
+  let best: string | null = null;
+  let bestCost = Infinity;
+  candidates.forEach(({ id, x, y }) => {
+    const dx = x - from.x;
+    const dy = y - from.y;
+    const distance = Math.hypot(dx, dy);
+    if (id === from.id || distance === 0) return;
+    const angle = Math.atan2(dy, dx) - axis;
+    const drift = Math.abs(Math.atan2(Math.sin(angle), Math.cos(angle)));
+    if (drift > DIRECTION_CONE) return;
+    const cost = distance * (1 + ANGLE_PENALTY * drift);
+    if (cost < bestCost) {
+      best = id;
+      bestCost = cost;
+    }
+  });
+  return best;
+};
+
+// Picks first, then the most relevant recommendations, then the best-connected titles
+export const byNavPriority = (graph: Graph, selected: Set<string>, relevance: Map<string, number>) =>
+  (a: string, b: string) =>
+    Number(selected.has(b)) - Number(selected.has(a)) ||
+    (relevance.get(b) ?? 0) - (relevance.get(a) ?? 0) ||
+    graph.degree(b) - graph.degree(a);
+
+// Where the cursor lands when the graph gets keyboard focus
+export const pickStartNode = (
+  graph: Graph,
+  visible: Iterable<string>,
+  selected: Set<string>,
+  relevance: Map<string, number>
+): string | null => {
+  const compare = byNavPriority(graph, selected, relevance);
+  let best: string | null = null;
+  for (const id of visible) {
+    if (graph.hasNode(id) && (best === null || compare(id, best) < 0)) best = id;
+  }
+  return best;
+};
@@ -0,0 +1,112 @@
+import Graph from 'graphology';
+import { ForceAtlas2Settings } from 'graphology-layout-forceatlas2';
+import { RawNode } from './dataset';
+
+// ==========================================
+// Graph layout
+// Shared by GraphLoader (live fallback) and scripts/bake-layout.ts, so a
+// baked layout starts from exactly the placement the browser would use.
+// ==========================================
+
+// Short settle pass right after the nodes are seeded
+export const INITIAL_LAYOUT_SETTINGS: ForceAtlas2Settings = {
+  adjustSizes: true,
+  gravity: 0.5,
+  scalingRatio: 60,
+  slowDown: 10,
+  barnesHutOptimize: true,
+};
+export const INITIAL_LAYOUT_ITERATIONS = 50;
+
+// Continuous layout run in the worker after the initial placement
+export const LIVE_LAYOUT_SETTINGS: ForceAtlas2Settings = {
+  adjustSizes: true,
+  gravity: 0.1,
+  scalingRatio: 80,
+  slowDown: 10,
+  barnesHutOptimize: true,
+  outboundAttractionDistribution: true,
+  edgeWeightInfluence: 1,
+};
+
+// Deterministic PRNG (mulberry32) so a baked layout is reproducible from its seed
+export const createRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Scatters each node around the angle of its primary genre
+export const seedGenrePositions = (graph: Graph, random: () => number = Math.random) => {
+  const allGenres = Array.from(new Set(graph.mapNodes((_node, attrs) => attrs.genres as string[]).flat())).sort();
+  const angleStep = (Math.PI * 2) / (allGenres.length || 1);
+
+  graph.updateEachNodeAttributes((_node, attrs) => {
+    const genres = (attrs.genres as string[]) || [];
+    const genreIndex = allGenres.indexOf(genres[0] || 'Default');
+    const baseAngle = genreIndex >= 0 ? genreIndex * angleStep : 0;
+    const jitter = (random() - 0.5) * 1.0;
+    const angle = baseAngle + jitter;
+    const radius = 300 + random() * 800;
+    return { ...attrs, x: Math.cos(angle) * radius, y: Math.sin(angle) * radius };
+  });
+};
+
+// Node size (3-15) and `importance` (0-1) from degree; FA2's adjustSizes reads the size
+export const applyDegreeSizes = (graph: Graph) => {
+  const degrees = graph.nodes().map((node) => graph.degree(node));
+  const minDegree = Math.min(...degrees);
+  const maxDegree = Math.max(...degrees);
+
+  graph.forEachNode((node) => {
+    const degree = graph.degree(node);
+    const ratio = (degree - minDegree) / (maxDegree - minDegree || 1);
+    graph.setNodeAttribute(node, 'size', 3 + ratio * 12);
+    graph.setNodeAttribute(node, 'importance', ratio);
+  });
+};
+
+// True when the dataset carries baked coordinates for every node
+export const hasStoredPositions = (nodes: RawNode[]): boolean =>
+  nodes.length > 0 && nodes.every((n) => Number.isFinite(n.x) && Number.isFinite(n.y));
+
+// Places streamed-in nodes at the mean of their already placed neighbors (with some jitter),
+// so a newly loaded tier shows up next to what it is tied to rather than at the origin
+export const placeNearNeighbors = (graph: Graph, nodes: string[], random: () => number = Math.random) => {
+  const pending = new Set(nodes);
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  graph.forEachNode((node, attrs) => {
+    if (pending.has(node)) return;
+    minX = Math.min(minX, attrs.x); maxX = Math.max(maxX, attrs.x);
+    minY = Math.min(minY, attrs.y); maxY = Math.max(maxY, attrs.y);
+  });
+  if (!Number.isFinite(minX)) return;
+  const jitter = 0.02 * Math.hypot(maxX - minX, maxY - minY);
+
+  // Nodes only tied to other new nodes are placed once one of those has a position
+  for (let placed = true; placed && pending.size > 0;) {
+    placed = false;
+    pending.forEach((node) => {
+      let x = 0, y = 0, count = 0;
+      graph.forEachNeighbor(node, (neighbor, attrs) => {
+        if (pending.has(neighbor)) return;
+        x += attrs.x; y += attrs.y; count++;
+      });
+      if (count === 0) return;
+      graph.mergeNodeAttributes(node, {
+        x: x / count + (random() - 0.5) * jitter,
+        y: y / count + (random() - 0.5) * jitter,
+      });
+      pending.delete(node);
+      placed = true;
+    });
+  }
+  pending.forEach((node) => {
+    graph.mergeNodeAttributes(node, { x: minX + random() * (maxX - minX), y: minY + random() * (maxY - minY) });
+  });
+};
@@ -0,0 +1,96 @@
+import { ReadingStatus } from './readingList';
+
+// ==========================================
+// MyAnimeList export import
+// Parses the manga list XML (optionally .xml.gz) from MAL's export page, entirely in the browser.
+// Node ids are MAL manga ids, so entries match on <manga_mangadb_id>.
+// ==========================================
+
+export type MalEntry = {
+  id: string;
+  title: string;
+  // MAL's own status text, e.g. "Completed" or "Plan to Read"
+  malStatus: string;
+  status: ReadingStatus | null;
+  score: number | null;
+};
+
+export type MalImportResult = {
+  matched: MalEntry[];
+  unmatched: MalEntry[];
+};
+
+export class MalImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MalImportError';
+  }
+}
+
+const MAL_STATUS_MAP: Record<string, ReadingStatus> = {
+  completed: 'read',
+  reading: 'reading',
+  'on-hold': 'want',
+  'plan to read': 'want',
+  dropped: 'dropped',
+};
+
+// MAL writes 2 for manga lists and 1 for anime lists
+const MANGA_EXPORT_TYPE = '2';
+
+const isGzip = (bytes: Uint8Array) => bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+export const readExportFile = async (file: File): Promise<string> => {
+  const buffer = await file.arrayBuffer();
+  if (!isGzip(new Uint8Array(buffer))) {
+    return new TextDecoder('utf-8').decode(buffer);
+  }
+  if (typeof DecompressionStream === 'undefined') {
+    throw new MalImportError('This browser cannot unpack .gz files. Extract the XML first and upload that.');
+  }
+  const stream = new Blob([buffer]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+};
+
+const childText = (el: Element, tag: string) => el.getElementsByTagName(tag)[0]?.textContent?.trim() ?? '';
+
+export const parseMalExport = (xml: string): MalEntry[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new MalImportError('The file is not valid XML.');
+  }
+  const root = doc.documentElement;
+  if (root.tagName !== 'myanimelist') {
+    throw new MalImportError('The file is not a MyAnimeList export (missing <myanimelist> root).');
+  }
+  const exportType = root.getElementsByTagName('user_export_type')[0]?.textContent?.trim();
+  if (exportType && exportType !== MANGA_EXPORT_TYPE) {
+    throw new MalImportError('This looks like an anime list. Export your manga list from MyAnimeList instead.');
+  }
+
+  return Array.from(root.getElementsByTagName('manga'))
+    .map((el): MalEntry => {
+      const malStatus = childText(el, 'my_status');
+      const score = Number(childText(el, 'my_score'));
+      return {
+        id: childText(el, 'manga_mangadb_id'),
+        title: childText(el, 'manga_title'),
+        malStatus,
+        status: MAL_STATUS_MAP[malStatus.toLowerCase()] ?? null,
+        score: Number.isFinite(score) && score >= 1 && score <= 10 ? score : null,
+      };
+    })
+    .filter((entry) => entry.id !== '');
+};
+
+export const matchMalEntries = (entries: MalEntry[], nodeIds: Set<string>): MalImportResult => ({
+  matched: entries.filter((e) => nodeIds.has(e.id)),
+  unmatched: entries.filter((e) => !nodeIds.has(e.id)),
+});
+
+// Highest-rated finished titles make the best starting picks
+export const pickSeedEntries = (matched: MalEntry[], minScore: number, limit: number): MalEntry[] =>
+  matched
+    .filter((e) => e.status === 'read' && (e.score ?? 0) >= minScore)
+    .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+    .slice(0, limit);
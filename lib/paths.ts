@@ -0,0 +1,175 @@
+import Graph from 'graphology';
+
+// ==========================================
+// Bridge paths
+// Strongest routes between two titles: Dijkstra with cost = 1 / weight, so a
+// path of strong ties beats a shorter chain of weak ones, plus Yen's
+// algorithm for the next-best loopless alternatives.
+// ==========================================
+
+export type BridgePath = {
+  // Node ids from source to target
+  nodes: string[];
+  // Edge keys along the path, nodes.length - 1 of them
+  edges: string[];
+  cost: number;
+  // Weakest link on the path (raw strength of that edge)
+  minStrength: number;
+};
+
+export type BridgeOptions = {
+  // Number of paths to return, best first
+  k: number;
+  isEdgeValid: (edge: string) => boolean;
+  // Source and target are always allowed through
+  isNodeValid: (node: string) => boolean;
+};
+
+export const DEFAULT_BRIDGE_PATHS = 3;
+
+type Link = { neighbor: string; edge: string; cost: number };
+
+const buildLinks = (graph: Graph, { isEdgeValid, isNodeValid }: BridgeOptions, endpoints: Set<string>) => {
+  const links = new Map<string, Link[]>();
+  const allowed = (node: string) => endpoints.has(node) || isNodeValid(node);
+  graph.forEachNode((node) => { if (allowed(node)) links.set(node, []); });
+  graph.forEachEdge((edge, attrs, source, target) => {
+    const weight = Number(attrs.weight) || 0;
+    if (weight <= 0 || !isEdgeValid(edge) || !links.has(source) || !links.has(target)) return;
+    const cost = 1 / weight;
+    links.get(source)!.push({ neighbor: target, edge, cost });
+    links.get(target)!.push({ neighbor: source, edge, cost });
+  });
+  return links;
+};
+
+// Binary min-heap on cost; stale entries are skipped when popped
+class MinHeap {
+  private items: { node: string; cost: number }[] = [];
+
+  get size() { return this.items.length; }
+
+  push(node: string, cost: number) {
+    const items = this.items;
+    items.push({ node, cost });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].cost <= items[i].cost) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop() {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = i * 2 + 1;
+        const r = l + 1;
+        let min = i;
+        if (l < items.length && items[l].cost < items[min].cost) min = l;
+        if (r < items.length && items[r].cost < items[min].cost) min = r;
+        if (min === i) break;
+        [items[min], items[i]] = [items[i], items[min]];
+        i = min;
+      }
+    }
+    return top;
+  }
+}
+
+const dijkstra = (
+  links: Map<string, Link[]>,
+  source: string,
+  target: string,
+  blockedNodes: Set<string>,
+  blockedEdges: Set<string>
+): { nodes: string[]; edges: string[]; cost: number } | null => {
+  const dist = new Map<string, number>([[source, 0]]);
+  const prev = new Map<string, { node: string; edge: string }>();
+  const heap = new MinHeap();
+  heap.push(source, 0);
+
+  while (heap.size > 0) {
+    const { node, cost } = heap.pop();
+    if (cost > (dist.get(node) ?? Infinity)) continue;
+    if (node === target) break;
+    for (const { neighbor, edge, cost: step } of links.get(node) || []) {
+      if (blockedNodes.has(neighbor) || blockedEdges.has(edge)) continue;
+      const next = cost + step;
+      if (next < (dist.get(neighbor) ?? Infinity)) {
+        dist.set(neighbor, next);
+        prev.set(neighbor, { node, edge });
+        heap.push(neighbor, next);
+      }
+    }
+  }
+
+  if (!dist.has(target)) return null;
+  const nodes = [target];
+  const edges: string[] = [];
+  let current = target;
+  while (current !== source) {
+    const step = prev.get(current)!;
+    edges.unshift(step.edge);
+    nodes.unshift(step.node);
+    current = step.node;
+  }
+  return { nodes, edges, cost: dist.get(target)! };
+};
+
+const pathKey = (nodes: string[]) => nodes.join('>');
+
+export const findBridgePaths = (graph: Graph, source: string, target: string, options: BridgeOptions): BridgePath[] => {
+  if (source === target || !graph.hasNode(source) || !graph.hasNode(target)) return [];
+  const links = buildLinks(graph, options, new Set([source, target]));
+  const edgeCost = (edge: string) => 1 / (Number(graph.getEdgeAttribute(edge, 'weight')) || Infinity);
+  const finish = (p: { nodes: string[]; edges: string[]; cost: number }): BridgePath => ({
+    ...p,
+    minStrength: Math.min(...p.edges.map((e) => Number(graph.getEdgeAttribute(e, 'strength')) || 0)),
+  });
+
+  const first = dijkstra(links, source, target, new Set(), new Set());
+  if (!first) return [];
+
+  // Yen's k shortest loopless paths
+  const found = [first];
+  const candidates: { nodes: string[]; edges: string[]; cost: number }[] = [];
+  const seen = new Set([pathKey(first.nodes)]);
+
+  while (found.length < options.k) {
+    const last = found[found.length - 1];
+    for (let i = 0; i < last.nodes.length - 1; i++) {
+      const spur = last.nodes[i];
+      const rootNodes = last.nodes.slice(0, i + 1);
+      const rootEdges = last.edges.slice(0, i);
+      const rootKey = pathKey(rootNodes);
+
+      // Don't reuse the next edge of any known path sharing this root
+      const blockedEdges = new Set<string>();
+      found.forEach((p) => {
+        if (pathKey(p.nodes.slice(0, i + 1)) === rootKey) blockedEdges.add(p.edges[i]);
+      });
+      const blockedNodes = new Set(rootNodes.slice(0, -1));
+
+      const spurPath = dijkstra(links, spur, target, blockedNodes, blockedEdges);
+      if (!spurPath) continue;
+      const nodes = [...rootNodes.slice(0, -1), ...spurPath.nodes];
+      const key = pathKey(nodes);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const edges = [...rootEdges, ...spurPath.edges];
+      candidates.push({ nodes, edges, cost: edges.reduce((sum, e) => sum + edgeCost(e), 0) });
+    }
+    if (candidates.length === 0) break;
+    candidates.sort((a, b) => a.cost - b.cost);
+    found.push(candidates.shift()!);
+  }
+
+  return found.map(finish);
+};
@@ -0,0 +1,66 @@
+// ==========================================
+// Popularity-aware ratings
+// A raw mean from 40 raters is much noisier than one from 200k. The Bayesian
+// rating pulls each score toward the catalogue mean, weighted by how many
+// people rated it, so sparse ratings only stand out when they are consistent.
+// ==========================================
+
+// score is null for unrated titles
+export type Rated = { score: number | null; scored_by?: number | null };
+
+export type RatingPrior = {
+  // Rater-weighted mean score of the catalogue
+  mean: number;
+  // Number of raters at which a title's own score counts as much as the prior
+  confidence: number;
+  // Largest rater count, for scaling popularity
+  maxRaters: number;
+};
+
+// Higher values favor only the very best-rated titles as hidden gems (8.0 -> 0.41, 9.0 -> 0.66)
+const GEM_QUALITY_EXPONENT = 4;
+// Quantile of rater counts used as the prior's confidence
+const CONFIDENCE_QUANTILE = 0.25;
+
+export const EMPTY_PRIOR: RatingPrior = { mean: 0, confidence: 0, maxRaters: 0 };
+
+export const computeRatingPrior = (nodes: Rated[]): RatingPrior => {
+  const rated = nodes.filter((n) => (n.score ?? 0) > 0 && (n.scored_by || 0) > 0);
+  if (rated.length === 0) return EMPTY_PRIOR;
+  let votes = 0;
+  let total = 0;
+  rated.forEach((n) => {
+    votes += n.scored_by!;
+    total += n.score! * n.scored_by!;
+  });
+  const counts = rated.map((n) => n.scored_by!).sort((a, b) => a - b);
+  return {
+    mean: total / votes,
+    confidence: counts[Math.floor((counts.length - 1) * CONFIDENCE_QUANTILE)],
+    maxRaters: counts[counts.length - 1],
+  };
+};
+
+// Without rater counts (or a usable prior) this is just the raw score; 0 for unrated titles, which only matters for ranking
+export const bayesianRating = (node: Rated, prior: RatingPrior): number => {
+  const votes = node.scored_by || 0;
+  const score = node.score ?? 0;
+  if (prior.confidence <= 0 || score <= 0) return score;
+  return (votes * score + prior.confidence * prior.mean) / (votes + prior.confidence);
+};
+
+// Label for a title's score in the UI
+export const formatScore = (score: number | null | undefined): string => (score == null ? 'No rating' : `★ ${score}`);
+
+// 0-1 on a log scale, so a handful of blockbusters don't flatten everything else
+export const popularity = (node: Rated, prior: RatingPrior): number =>
+  prior.maxRaters > 0 ? Math.log1p(node.scored_by || 0) / Math.log1p(prior.maxRaters) : 0;
+
+// How much a title looks like a hidden gem in 0-1: well rated after shrinkage, rated by few
+export const hiddenGemFactor = (node: Rated, prior: RatingPrior): number => {
+  const rating = bayesianRating(node, prior);
+  // No ratings at all in the data: fall back to plain graph relevance
+  if (rating <= 0) return 1;
+  const quality = Math.pow(Math.min(rating, 10) / 10, GEM_QUALITY_EXPONENT);
+  return quality * (1 - popularity(node, prior));
+};
@@ -0,0 +1,231 @@
+import { normalizeText } from './search';
+
+// ==========================================
+// Graph query language
+// Parses expressions like
+//   genre:Romance AND NOT genre:Drama score>=7.5 scored_by>10000 degree>20
+// into a node predicate. Terms next to each other are ANDed; AND, OR, NOT
+// (or a leading "-") and parentheses combine them. A bare word matches titles,
+// including one with a colon that is not a field name (`Re:Zero`).
+// ==========================================
+
+export type QueryNode = {
+  title: string;
+  title_en?: string | null;
+  aliases?: string[];
+  genres: string[];
+  // null for unrated titles, which no score or scored_by comparison matches
+  score: number | null;
+  scored_by: number | null;
+  degree: number;
+  community?: number;
+  status?: string;
+};
+
+export type NodePredicate = (node: QueryNode) => boolean;
+
+export class QueryError extends Error {
+  constructor(message: string, public readonly start: number, public readonly end: number) {
+    super(message);
+    this.name = 'QueryError';
+  }
+}
+
+type Comparator = ':' | '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+type FieldSpec =
+  | { kind: 'number'; get: (n: QueryNode) => number | null | undefined }
+  | { kind: 'text'; get: (n: QueryNode) => string[] };
+
+const titlesOf = (n: QueryNode) => [n.title, n.title_en ?? '', ...(n.aliases || [])];
+
+const FIELDS: Record<string, FieldSpec> = {
+  genre: { kind: 'text', get: (n) => n.genres },
+  title: { kind: 'text', get: titlesOf },
+  status: { kind: 'text', get: (n) => (n.status ? [n.status] : []) },
+  score: { kind: 'number', get: (n) => n.score },
+  scored_by: { kind: 'number', get: (n) => n.scored_by },
+  degree: { kind: 'number', get: (n) => n.degree },
+  community: { kind: 'number', get: (n) => n.community },
+};
+
+export const QUERY_FIELDS = Object.keys(FIELDS);
+
+// --- Tokenizer ---
+type Token =
+  | { type: 'lparen' | 'rparen' | 'and' | 'or' | 'not'; start: number; end: number }
+  | { type: 'term'; field: string | null; op: Comparator | null; value: string; start: number; end: number };
+
+const KEYWORDS: Record<string, 'and' | 'or' | 'not'> = { and: 'and', or: 'or', not: 'not', '&&': 'and', '||': 'or' };
+
+// A value is a quoted string or a run of characters up to whitespace or a parenthesis
+const readValue = (input: string, at: number): { value: string; end: number } => {
+  const quote = input[at];
+  if (quote === '"' || quote === '\'') {
+    const close = input.indexOf(quote, at + 1);
+    if (close < 0) throw new QueryError('Unclosed quote', at, input.length);
+    return { value: input.slice(at + 1, close), end: close + 1 };
+  }
+  let end = at;
+  while (end < input.length && !/[\s()]/.test(input[end])) end++;
+  return { value: input.slice(at, end), end };
+};
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    if (ch === '(' || ch === ')') {
+      tokens.push({ type: ch === '(' ? 'lparen' : 'rparen', start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+    if (ch === '-' && i + 1 < input.length && !/[\s\d]/.test(input[i + 1])) {
+      tokens.push({ type: 'not', start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const field = /^([a-z_]+)\s*(>=|<=|!=|:|=|>|<)\s*/i.exec(input.slice(i));
+    const name = field ? field[1].toLowerCase() : '';
+    // A colon after an unknown word is part of a title (`Re:Zero`), not a field
+    if (field && (FIELDS[name] || field[2] !== ':')) {
+      if (!FIELDS[name]) {
+        throw new QueryError(`Unknown field "${field[1]}" (try ${QUERY_FIELDS.join(', ')})`, start, start + field[1].length);
+      }
+      const valueStart = i + field[0].length;
+      const { value, end } = readValue(input, valueStart);
+      if (value === '') throw new QueryError(`Missing value after "${field[1]}${field[2]}"`, start, valueStart);
+      tokens.push({ type: 'term', field: name, op: field[2] as Comparator, value, start, end });
+      i = end;
+      continue;
+    }
+
+    const { value, end } = readValue(input, i);
+    const keyword = KEYWORDS[value.toLowerCase()];
+    if (keyword && !/^['"]/.test(ch)) tokens.push({ type: keyword, start, end });
+    else tokens.push({ type: 'term', field: null, op: null, value, start, end });
+    i = end;
+  }
+  return tokens;
+};
+
+// --- Parser ---
+const titleContains = (value: string, start: number, end: number): NodePredicate => {
+  const needle = normalizeText(value);
+  // Punctuation alone normalizes to nothing, which would match every title
+  if (!needle) throw new QueryError('Empty search term', start, end);
+  return (n) => titlesOf(n).some((t) => normalizeText(t).includes(needle));
+};
+
+const compileTerm = (token: Extract<Token, { type: 'term' }>): NodePredicate => {
+  const { field, op, value, start, end } = token;
+
+  // Bare words search the titles
+  if (field === null) return titleContains(value, start, end);
+
+  const spec = FIELDS[field];
+  if (spec.kind === 'text') {
+    if (op !== ':' && op !== '=' && op !== '!=') {
+      throw new QueryError(`"${field}" only supports ":", "=" or "!="`, start, end);
+    }
+    const needle = value.toLowerCase();
+    // genre:Romance is an exact (case-insensitive) match; title:foo is a substring match
+    const matches: NodePredicate = field === 'title'
+      ? titleContains(value, start, end)
+      : (n) => spec.get(n).some((t) => t.toLowerCase() === needle);
+    return op === '!=' ? (n) => !matches(n) : matches;
+  }
+
+  const target = Number(value);
+  if (!Number.isFinite(target)) throw new QueryError(`"${value}" is not a number`, start, end);
+  const compare: Record<Comparator, (a: number) => boolean> = {
+    ':': (a) => a === target,
+    '=': (a) => a === target,
+    '!=': (a) => a !== target,
+    '>': (a) => a > target,
+    '>=': (a) => a >= target,
+    '<': (a) => a < target,
+    '<=': (a) => a <= target,
+  };
+  const test = compare[op!];
+  return (n) => {
+    const actual = spec.get(n);
+    return actual !== undefined && actual !== null && test(actual);
+  };
+};
+
+export const parseQuery = (input: string): NodePredicate | null => {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) return null;
+  let pos = 0;
+  const peek = () => tokens[pos];
+
+  const parseOr = (): NodePredicate => {
+    let left = parseAnd();
+    while (peek()?.type === 'or') {
+      pos++;
+      const right = parseAnd();
+      const l = left;
+      left = (n) => l(n) || right(n);
+    }
+    return left;
+  };
+
+  const parseAnd = (): NodePredicate => {
+    let left = parseUnary();
+    for (;;) {
+      const next = peek();
+      if (!next || next.type === 'or' || next.type === 'rparen') return left;
+      if (next.type === 'and') pos++;
+      const right = parseUnary();
+      const l = left;
+      left = (n) => l(n) && right(n);
+    }
+  };
+
+  const parseUnary = (): NodePredicate => {
+    const token = peek();
+    if (!token) {
+      const last = tokens[tokens.length - 1];
+      throw new QueryError('Expression ends too early', last.end, last.end);
+    }
+    if (token.type === 'not') {
+      pos++;
+      const inner = parseUnary();
+      return (n) => !inner(n);
+    }
+    if (token.type === 'lparen') {
+      pos++;
+      const inner = parseOr();
+      if (peek()?.type !== 'rparen') throw new QueryError('Missing ")"', token.start, token.end);
+      pos++;
+      return inner;
+    }
+    if (token.type === 'term') {
+      pos++;
+      return compileTerm(token);
+    }
+    throw new QueryError(`Unexpected "${input.slice(token.start, token.end)}"`, token.start, token.end);
+  };
+
+  const predicate = parseOr();
+  if (pos < tokens.length) {
+    const extra = tokens[pos];
+    throw new QueryError(`Unexpected "${input.slice(extra.start, extra.end)}"`, extra.start, extra.end);
+  }
+  return predicate;
+};
+
+// Parse without throwing, for live validation in the UI
+export const checkQuery = (input: string): { predicate: NodePredicate | null; error: QueryError | null } => {
+  try {
+    return { predicate: parseQuery(input), error: null };
+  } catch (e) {
+    if (e instanceof QueryError) return { predicate: null, error: e };
+    throw e;
+  }
+};
@@ -0,0 +1,136 @@
+// ==========================================
+// Reading list persistence
+// Entries live in localStorage; once the serialized list outgrows
+// LOCAL_STORAGE_LIMIT it moves to IndexedDB and localStorage keeps a marker.
+// ==========================================
+
+export type ReadingStatus = 'read' | 'reading' | 'want' | 'dropped';
+
+export const READING_STATUSES: { id: ReadingStatus; label: string; icon: string }[] = [
+  { id: 'read', label: 'Read', icon: '✓' },
+  { id: 'reading', label: 'Reading', icon: '📖' },
+  { id: 'want', label: 'Want to Read', icon: '🔖' },
+  { id: 'dropped', label: 'Dropped', icon: '✕' },
+];
+
+export type ReadingEntry = {
+  id: string;
+  status: ReadingStatus;
+  // Personal rating on MAL's 1-10 scale
+  rating: number | null;
+  updatedAt: number;
+};
+
+export type ReadingList = Map<string, ReadingEntry>;
+
+const STORAGE_KEY = 'manga-nexus:reading-list';
+const IDB_MARKER = 'idb';
+const IDB_NAME = 'manga-nexus';
+const IDB_STORE = 'kv';
+const LOCAL_STORAGE_LIMIT = 512 * 1024;
+
+const isReadingStatus = (v: unknown): v is ReadingStatus =>
+  READING_STATUSES.some((s) => s.id === v);
+
+const toList = (json: unknown): ReadingList => {
+  const list: ReadingList = new Map();
+  if (!Array.isArray(json)) return list;
+  json.forEach((raw) => {
+    if (!raw || typeof raw !== 'object') return;
+    const { id, status, rating, updatedAt } = raw as Partial<ReadingEntry>;
+    if (typeof id !== 'string' || !isReadingStatus(status)) return;
+    list.set(id, {
+      id,
+      status,
+      rating: typeof rating === 'number' && rating >= 1 && rating <= 10 ? rating : null,
+      updatedAt: typeof updatedAt === 'number' ? updatedAt : 0,
+    });
+  });
+  return list;
+};
+
+// --- IndexedDB (single key/value store) ---
+const openDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(IDB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(IDB_STORE);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const idbRequest = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const req = run(db.transaction(IDB_STORE, mode).objectStore(IDB_STORE));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// --- Public API ---
+export const loadReadingList = async (): Promise<ReadingList> => {
+  if (typeof window === 'undefined') return new Map();
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (stored === IDB_MARKER) {
+      const text = await idbRequest<string | undefined>('readonly', (store) => store.get(STORAGE_KEY));
+      return toList(text ? JSON.parse(text) : []);
+    }
+    return toList(stored ? JSON.parse(stored) : []);
+  } catch (e) {
+    console.error('Failed to load reading list', e);
+    return new Map();
+  }
+};
+
+export const saveReadingList = async (list: ReadingList): Promise<void> => {
+  if (typeof window === 'undefined') return;
+  const text = JSON.stringify(Array.from(list.values()));
+  try {
+    if (text.length <= LOCAL_STORAGE_LIMIT) {
+      window.localStorage.setItem(STORAGE_KEY, text);
+      return;
+    }
+    await idbRequest('readwrite', (store) => store.put(text, STORAGE_KEY));
+    window.localStorage.setItem(STORAGE_KEY, IDB_MARKER);
+  } catch (e) {
+    console.error('Failed to save reading list', e);
+  }
+};
+
+// Returns a new list with the entry updated; `status: null` removes it
+export const updateReadingEntry = (
+  list: ReadingList,
+  id: string,
+  patch: { status?: ReadingStatus | null; rating?: number | null }
+): ReadingList => {
+  const next = new Map(list);
+  const current = list.get(id);
+  if (patch.status === null) {
+    next.delete(id);
+    return next;
+  }
+  next.set(id, {
+    id,
+    // A rating alone implies the title was read
+    status: patch.status ?? current?.status ?? 'read',
+    rating: patch.rating !== undefined ? patch.rating : current?.rating ?? null,
+    updatedAt: Date.now(),
+  });
+  return next;
+};
+
+// Returns a new list with every entry set (existing ones are overwritten), copying the list once
+export const mergeReadingEntries = (
+  list: ReadingList,
+  entries: { id: string; status: ReadingStatus; rating: number | null }[]
+): ReadingList => {
+  const next = new Map(list);
+  const updatedAt = Date.now();
+  entries.forEach(({ id, status, rating }) => next.set(id, { id, status, rating, updatedAt }));
+  return next;
+};
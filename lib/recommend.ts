@@ -0,0 +1,177 @@
+import Graph from 'graphology';
+import { Rated, computeRatingPrior, hiddenGemFactor } from './popularity';
+
+// ==========================================
+// Multi-seed recommendation ranking
+// Scores every candidate by how strongly it is tied to the selected titles (seeds)
+// over the currently valid edges, instead of requiring a strict neighbor intersection.
+// ==========================================
+
+export type RankingMode = 'sum' | 'normalized' | 'ppr' | 'rwr' | 'gems';
+
+export const RANKING_MODES: { id: RankingMode; label: string; description: string }[] = [
+  { id: 'sum', label: 'Total strength', description: 'Sum of edge weights to every pick' },
+  { id: 'normalized', label: 'Balanced', description: 'Average of per-pick weights, each scaled to that pick\'s strongest link' },
+  { id: 'ppr', label: 'PageRank', description: 'Personalized PageRank teleporting to your picks' },
+  { id: 'rwr', label: 'Random walk', description: 'Random walk with restart from each pick, combined so all picks must agree' },
+  { id: 'gems', label: 'Hidden gems', description: 'Balanced strength, favoring well-rated titles few people have rated' },
+];
+
+export const DEFAULT_RANKING_MODE: RankingMode = 'normalized';
+
+export type RankingOptions = {
+  mode: RankingMode;
+  // Candidates need a direct valid edge to at least this many seeds (clamped to the seed count)
+  minSeedLinks: number;
+  isEdgeValid: (edge: string) => boolean;
+  isNodeValid: (node: string) => boolean;
+  // Disliked titles: candidates tied to them are ranked down, or dropped past DISLIKE_HIDE_THRESHOLD
+  avoid?: string[];
+};
+
+export type Recommendation = {
+  id: string;
+  // Relative relevance in 0-1, 1 being the best candidate
+  score: number;
+  // Number of seeds the candidate is directly connected to
+  seedLinks: number;
+  // Strongest tie to a disliked title in 0-1 (relative to that title's strongest link)
+  penalty: number;
+};
+
+const PPR_DAMPING = 0.85;
+const RWR_RESTART = 0.3;
+const WALK_ITERATIONS = 30;
+const RWR_EPSILON = 1e-9;
+export const DISLIKE_HIDE_THRESHOLD = 0.6;
+
+type Adjacency = Map<string, { neighbor: string; weight: number }[]>;
+
+const buildAdjacency = (graph: Graph, isEdgeValid: RankingOptions['isEdgeValid']): Adjacency => {
+  const adjacency: Adjacency = new Map();
+  graph.forEachNode((node) => adjacency.set(node, []));
+  graph.forEachEdge((edge, attrs, source, target) => {
+    if (!isEdgeValid(edge)) return;
+    const weight = Number(attrs.weight) || 0;
+    if (weight <= 0) return;
+    adjacency.get(source)!.push({ neighbor: target, weight });
+    adjacency.get(target)!.push({ neighbor: source, weight });
+  });
+  return adjacency;
+};
+
+// Power iteration of a weighted random walk that jumps back to `restart` with probability 1 - damping
+const walkWithRestart = (adjacency: Adjacency, restart: string[], damping: number): Map<string, number> => {
+  const teleport = 1 / restart.length;
+  const outWeight = new Map<string, number>();
+  adjacency.forEach((links, node) => outWeight.set(node, links.reduce((sum, l) => sum + l.weight, 0)));
+
+  let rank = new Map<string, number>(restart.map((id) => [id, teleport]));
+  for (let i = 0; i < WALK_ITERATIONS; i++) {
+    const next = new Map<string, number>(restart.map((id) => [id, (1 - damping) * teleport]));
+    let dangling = 0;
+    rank.forEach((value, node) => {
+      const total = outWeight.get(node) || 0;
+      if (total === 0) {
+        dangling += value;
+        return;
+      }
+      adjacency.get(node)!.forEach(({ neighbor, weight }) => {
+        next.set(neighbor, (next.get(neighbor) || 0) + damping * value * (weight / total));
+      });
+    });
+    // Mass stuck on nodes without valid edges goes back to the seeds
+    if (dangling > 0) restart.forEach((id) => next.set(id, (next.get(id) || 0) + damping * dangling * teleport));
+    rank = next;
+  }
+  return rank;
+};
+
+export const rankRecommendations = (
+  graph: Graph,
+  seeds: string[],
+  { mode, minSeedLinks, isEdgeValid, isNodeValid, avoid = [] }: RankingOptions
+): Map<string, Recommendation> => {
+  const seedList = seeds.filter((id) => graph.hasNode(id));
+  const results = new Map<string, Recommendation>();
+  if (seedList.length === 0) return results;
+
+  const avoidList = avoid.filter((id) => graph.hasNode(id) && !seeds.includes(id));
+  const seedSet = new Set([...seedList, ...avoidList]);
+  const adjacency = buildAdjacency(graph, isEdgeValid);
+  const required = Math.max(1, Math.min(minSeedLinks, seedList.length));
+
+  // Direct links from each seed: candidate -> (seed -> weight)
+  const links = new Map<string, Map<string, number>>();
+  seedList.forEach((seed) => {
+    adjacency.get(seed)!.forEach(({ neighbor, weight }) => {
+      if (seedSet.has(neighbor) || !isNodeValid(neighbor)) return;
+      if (!links.has(neighbor)) links.set(neighbor, new Map());
+      const bySeed = links.get(neighbor)!;
+      bySeed.set(seed, Math.max(bySeed.get(seed) || 0, weight));
+    });
+  });
+
+  let raw: (candidate: string, bySeed: Map<string, number>) => number;
+  switch (mode) {
+    case 'sum':
+      raw = (_c, bySeed) => Array.from(bySeed.values()).reduce((a, b) => a + b, 0);
+      break;
+    case 'normalized':
+    case 'gems': {
+      const seedMax = new Map(seedList.map((seed) => [
+        seed,
+        adjacency.get(seed)!.reduce((max, l) => Math.max(max, l.weight), 0) || 1,
+      ]));
+      const balanced = (bySeed: Map<string, number>) => {
+        let total = 0;
+        bySeed.forEach((w, seed) => { total += w / seedMax.get(seed)!; });
+        return total / seedList.length;
+      };
+      if (mode === 'normalized') {
+        raw = (_c, bySeed) => balanced(bySeed);
+        break;
+      }
+      const rated = (node: string) => graph.getNodeAttributes(node) as Rated;
+      const prior = computeRatingPrior(graph.mapNodes(rated));
+      raw = (candidate, bySeed) => balanced(bySeed) * hiddenGemFactor(rated(candidate), prior);
+      break;
+    }
+    case 'ppr': {
+      const rank = walkWithRestart(adjacency, seedList, PPR_DAMPING);
+      raw = (candidate) => rank.get(candidate) || 0;
+      break;
+    }
+    case 'rwr': {
+      // Geometric mean across seeds: a candidate only one pick can reach scores low
+      const perSeed = seedList.map((seed) => walkWithRestart(adjacency, [seed], 1 - RWR_RESTART));
+      raw = (candidate) => Math.exp(
+        perSeed.reduce((sum, rank) => sum + Math.log((rank.get(candidate) || 0) + RWR_EPSILON), 0) / perSeed.length
+      );
+      break;
+    }
+  }
+
+  // Penalty per candidate: strongest link to any disliked title, scaled by that title's own maximum
+  const penalties = new Map<string, number>();
+  avoidList.forEach((disliked) => {
+    const dislikedLinks = adjacency.get(disliked)!;
+    const max = dislikedLinks.reduce((m, l) => Math.max(m, l.weight), 0) || 1;
+    dislikedLinks.forEach(({ neighbor, weight }) => {
+      penalties.set(neighbor, Math.max(penalties.get(neighbor) || 0, weight / max));
+    });
+  });
+
+  let best = 0;
+  links.forEach((bySeed, candidate) => {
+    if (bySeed.size < required) return;
+    const penalty = penalties.get(candidate) || 0;
+    if (penalty >= DISLIKE_HIDE_THRESHOLD) return;
+    const score = raw(candidate, bySeed) * (1 - penalty);
+    best = Math.max(best, score);
+    results.set(candidate, { id: candidate, score, seedLinks: bySeed.size, penalty });
+  });
+
+  results.forEach((rec) => { rec.score = best > 0 ? rec.score / best : 0; });
+  return results;
+};
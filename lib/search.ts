@@ -0,0 +1,232 @@
+// ==========================================
+// Title search
+// Matches queries against Japanese and English titles and per-node aliases.
+// Text is normalized (NFKC width folding, katakana -> hiragana, common kanji
+// variants), kana is indexed as romaji so "haruhi" finds ハルヒ, and short
+// typos are tolerated. Results rank by match quality, then popularity.
+// ==========================================
+
+export type SearchDocument = {
+  id: string;
+  title: string;
+  title_en?: string | null;
+  aliases?: string[];
+  score: number | null;
+  scored_by?: number | null;
+};
+
+export type MatchKind = 'exact' | 'prefix' | 'word' | 'substring' | 'fuzzy';
+
+export type SearchResult<T extends SearchDocument> = {
+  node: T;
+  kind: MatchKind;
+  // The title or alias that matched, as written in the data
+  matched: string;
+  rank: number;
+};
+
+type IndexedKey = { original: string; text: string; words: string[]; romaji: string };
+
+export type SearchIndex<T extends SearchDocument> = {
+  entries: { node: T; keys: IndexedKey[]; popularity: number }[];
+};
+
+const MATCH_QUALITY: Record<MatchKind, number> = {
+  exact: 1,
+  prefix: 0.85,
+  word: 0.75,
+  substring: 0.6,
+  fuzzy: 0.4,
+};
+// Popularity (0-1) can lift a result by at most this much. It stays below the smallest
+// gap between qualities (0.1, also the cost of one typo), so it only reorders within a match kind.
+const POPULARITY_WEIGHT = 0.09;
+// Typos allowed grow with the query: none below 4 characters, then 1 per 4, up to 2
+const MIN_FUZZY_LENGTH = 4;
+const MAX_TYPOS = 2;
+
+// --- Normalization ---
+// Old/variant forms that show up in titles and user input interchangeably
+const KANJI_VARIANTS: Record<string, string> = {
+  '凉': '涼', '髙': '高', '﨑': '崎', '嵜': '崎', '邊': '辺', '邉': '辺', '澤': '沢',
+  '齋': '斎', '齊': '斉', '國': '国', '學': '学', '櫻': '桜', '龍': '竜', '廣': '広',
+  '濱': '浜', '濵': '浜', '眞': '真', '藏': '蔵', '德': '徳', '黑': '黒', '戀': '恋',
+  '劍': '剣', '劔': '剣', '圓': '円', '靑': '青', '惠': '恵', '繪': '絵', '螢': '蛍',
+};
+
+const KATAKANA_START = 0x30a1;
+const KATAKANA_END = 0x30f6;
+const KANA_OFFSET = 0x60;
+
+const toHiragana = (s: string) =>
+  s.replace(/[ァ-ヶ]/g, (ch) => {
+    const code = ch.charCodeAt(0);
+    return code >= KATAKANA_START && code <= KATAKANA_END ? String.fromCharCode(code - KANA_OFFSET) : ch;
+  });
+
+// Folds width, case, kana type and kanji variants; drops spacing and punctuation
+export const normalizeText = (s: string): string =>
+  toHiragana(s.normalize('NFKC').toLowerCase())
+    .replace(/./gu, (ch) => KANJI_VARIANTS[ch] ?? ch)
+    .replace(/[\s\p{P}\p{S}]/gu, '');
+
+// --- Romaji ---
+const KANA_ROMAJI: Record<string, string> = {
+  あ: 'a', い: 'i', う: 'u', え: 'e', お: 'o',
+  か: 'ka', き: 'ki', く: 'ku', け: 'ke', こ: 'ko', が: 'ga', ぎ: 'gi', ぐ: 'gu', げ: 'ge', ご: 'go',
+  さ: 'sa', し: 'shi', す: 'su', せ: 'se', そ: 'so', ざ: 'za', じ: 'ji', ず: 'zu', ぜ: 'ze', ぞ: 'zo',
+  た: 'ta', ち: 'chi', つ: 'tsu', て: 'te', と: 'to', だ: 'da', ぢ: 'ji', づ: 'zu', で: 'de', ど: 'do',
+  な: 'na', に: 'ni', ぬ: 'nu', ね: 'ne', の: 'no',
+  は: 'ha', ひ: 'hi', ふ: 'fu', へ: 'he', ほ: 'ho', ば: 'ba', び: 'bi', ぶ: 'bu', べ: 'be', ぼ: 'bo',
+  ぱ: 'pa', ぴ: 'pi', ぷ: 'pu', ぺ: 'pe', ぽ: 'po',
+  ま: 'ma', み: 'mi', む: 'mu', め: 'me', も: 'mo',
+  や: 'ya', ゆ: 'yu', よ: 'yo',
+  ら: 'ra', り: 'ri', る: 'ru', れ: 're', ろ: 'ro',
+  わ: 'wa', ゐ: 'i', ゑ: 'e', を: 'o', ん: 'n', ゔ: 'vu',
+  ぁ: 'a', ぃ: 'i', ぅ: 'u', ぇ: 'e', ぉ: 'o',
+};
+
+const SMALL_Y: Record<string, string> = { ゃ: 'a', ゅ: 'u', ょ: 'o' };
+const SMALL_VOWEL: Record<string, string> = { ぁ: 'a', ぃ: 'i', ぅ: 'u', ぇ: 'e', ぉ: 'o' };
+
+// Hepburn-style romaji of the kana in `hiragana`; kanji and symbols are skipped
+const kanaToRomaji = (hiragana: string): string => {
+  let out = '';
+  let doubleNext = false;
+  const chars = Array.from(hiragana);
+  for (let i = 0; i < chars.length; i++) {
+    const ch = chars[i];
+    if (ch === 'っ') { doubleNext = true; continue; }
+    if (ch === 'ー') { out += out.slice(-1); continue; }
+    let romaji = KANA_ROMAJI[ch];
+    if (!romaji) {
+      // Latin letters and digits pass through, so "to loveる" becomes "toloveru"
+      if (/[a-z0-9]/.test(ch)) out += ch;
+      doubleNext = false;
+      continue;
+    }
+    const small = SMALL_Y[chars[i + 1]];
+    const smallVowel = SMALL_VOWEL[chars[i + 1]];
+    if (small && romaji.endsWith('i') && romaji.length > 1) {
+      // きゃ -> kya, しゃ -> sha, じゃ -> ja
+      const stem = romaji.slice(0, -1);
+      romaji = (/(sh|ch|j)$/.test(stem) ? stem : stem + 'y') + small;
+      i++;
+    } else if (smallVowel) {
+      // Loanword spellings: チェ -> che, ファ -> fa, ティ -> ti, ウィ -> wi
+      romaji = (romaji.length > 1 ? romaji.slice(0, -1) : 'w') + smallVowel;
+      i++;
+    }
+    if (doubleNext) romaji = (romaji.startsWith('ch') ? 't' : romaji[0]) + romaji;
+    doubleNext = false;
+    out += romaji;
+  }
+  return out;
+};
+
+// Collapses spelling variants so "shounen", "shonen" and "syonen" compare equal
+const canonicalRomaji = (s: string): string =>
+  s
+    .replace(/[^a-z0-9]/g, '')
+    .replace(/tch/g, 'tt')
+    .replace(/sh(?=[aueo])/g, 'sy').replace(/shi/g, 'si')
+    .replace(/ch(?=[aueo])/g, 'ty').replace(/chi/g, 'ti')
+    .replace(/j(?=[aueo])/g, 'zy').replace(/ji/g, 'zi')
+    .replace(/tsu/g, 'tu').replace(/fu/g, 'hu')
+    .replace(/m(?=[bmp])/g, 'n')
+    .replace(/ou/g, 'o').replace(/([aeiou])\1+/g, '$1')
+    .replace(/wo/g, 'o');
+
+const isRomajiQuery = (normalized: string) => /^[a-z0-9]+$/.test(normalized);
+
+// --- Matching ---
+const matchKind = (key: string, words: string[], query: string): MatchKind | null => {
+  if (!key || !query) return null;
+  if (key === query) return 'exact';
+  if (key.startsWith(query)) return 'prefix';
+  if (words.some((w) => w.startsWith(query))) return 'word';
+  if (key.includes(query)) return 'substring';
+  return null;
+};
+
+// Smallest edit distance between `query` and any substring of `text` (Sellers), with transpositions
+const substringDistance = (query: string, text: string, limit: number): number => {
+  const q = Array.from(query);
+  const t = Array.from(text);
+  let prevPrev: number[] = new Array(t.length + 1).fill(0);
+  let prev: number[] = new Array(t.length + 1).fill(0);
+  for (let i = 1; i <= q.length; i++) {
+    const row: number[] = [i];
+    let rowMin = i;
+    for (let j = 1; j <= t.length; j++) {
+      const cost = q[i - 1] === t[j - 1] ? 0 : 1;
+      let v = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && q[i - 1] === t[j - 2] && q[i - 2] === t[j - 1]) v = Math.min(v, prevPrev[j - 2] + 1);
+      row.push(v);
+      rowMin = Math.min(rowMin, v);
+    }
+    if (rowMin > limit) return Infinity;
+    prevPrev = prev;
+    prev = row;
+  }
+  return Math.min(...prev);
+};
+
+const allowedTypos = (length: number) =>
+  length < MIN_FUZZY_LENGTH ? 0 : Math.min(MAX_TYPOS, Math.floor(length / MIN_FUZZY_LENGTH));
+
+// --- Public API ---
+export const buildSearchIndex = <T extends SearchDocument>(nodes: T[]): SearchIndex<T> => {
+  const maxPopularity = Math.max(1, ...nodes.map((n) => n.scored_by || 0));
+  return {
+    entries: nodes.map((node) => {
+      const originals = [node.title, node.title_en, ...(node.aliases || [])]
+        .filter((s): s is string => typeof s === 'string' && s.trim() !== '');
+      const keys = originals.map((original) => {
+        const text = normalizeText(original);
+        const words = original.split(/\s+/).map(normalizeText).filter(Boolean);
+        return { original, text, words, romaji: canonicalRomaji(kanaToRomaji(text)) };
+      });
+      // Log scale so a handful of blockbusters don't drown everything else
+      const popularity = Math.log1p(node.scored_by || 0) / Math.log1p(maxPopularity);
+      return { node, keys, popularity };
+    }),
+  };
+};
+
+export const searchTitles = <T extends SearchDocument>(index: SearchIndex<T>, query: string, limit: number): SearchResult<T>[] => {
+  const text = normalizeText(query);
+  if (!text) return [];
+  const romaji = isRomajiQuery(text) ? canonicalRomaji(text) : null;
+  const typos = allowedTypos(Array.from(romaji ?? text).length);
+
+  const results: SearchResult<T>[] = [];
+  index.entries.forEach(({ node, keys, popularity }) => {
+    let best: { kind: MatchKind; matched: string; quality: number } | null = null;
+    const consider = (kind: MatchKind | null, matched: string, penalty = 0) => {
+      if (!kind) return;
+      const quality = MATCH_QUALITY[kind] - penalty;
+      if (!best || quality > best.quality) best = { kind, matched, quality };
+    };
+
+    keys.forEach((key) => {
+      consider(matchKind(key.text, key.words, text), key.original);
+      if (romaji) consider(matchKind(key.romaji, [], romaji), key.original);
+    });
+    if (!best && typos > 0) {
+      keys.forEach((key) => {
+        const target = romaji ? key.romaji : key.text;
+        const distance = substringDistance(romaji ?? text, target, typos);
+        if (distance <= typos) consider('fuzzy', key.original, distance * 0.1);
+      });
+    }
+    if (best) {
+      const { kind, matched, quality } = best;
+      results.push({ node, kind, matched, rank: quality + POPULARITY_WEIGHT * popularity });
+    }
+  });
+
+  return results
+    .sort((a, b) => b.rank - a.rank || (b.node.score ?? 0) - (a.node.score ?? 0))
+    .slice(0, limit);
+};
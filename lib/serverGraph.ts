@@ -0,0 +1,96 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import Graph from 'graphology';
+import { DATASETS, DatasetError, DatasetVersion, GraphData, RawNode, logDatasetReport, parseDataset } from './dataset';
+import { DEFAULT_STRENGTH_METHOD, StrengthMethod, StrengthScale, normalizeEdgeStrengths } from './edgeStrength';
+import { detectCommunities } from './communities';
+import { SearchIndex, buildSearchIndex } from './search';
+
+// ==========================================
+// Server-side graph
+// API routes share one graph per dataset version and strength method, read
+// from /public on first use and kept for the life of the server process.
+// Unlike the browser, no node is dropped for its score or degree; callers
+// filter per request. Communities come from the same seeded Louvain pass as in
+// the browser, over the whole dataset, so `community:` filters work here too.
+// ==========================================
+
+export type ServerGraph = {
+  version: DatasetVersion;
+  strengthMethod: StrengthMethod;
+  graph: Graph;
+  strengthScale: StrengthScale;
+  nodes: Map<string, RawNode>;
+  searchIndex: SearchIndex<RawNode>;
+};
+
+// The dataset file is not deployed, as opposed to present but unreadable
+export class DatasetUnavailableError extends DatasetError {
+  constructor(version: DatasetVersion) {
+    super(`Dataset "${version}" is not available on this server (${DATASETS[version].path} is missing)`);
+    this.name = 'DatasetUnavailableError';
+  }
+}
+
+const datasets = new Map<DatasetVersion, Promise<GraphData>>();
+const graphs = new Map<string, Promise<ServerGraph>>();
+
+const readDataset = async (version: DatasetVersion): Promise<GraphData> => {
+  const file = path.join(process.cwd(), 'public', DATASETS[version].path);
+  let text: string;
+  try {
+    text = await readFile(file, 'utf-8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') throw new DatasetUnavailableError(version);
+    throw new DatasetError(`Dataset "${version}" could not be read from ${file}`);
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new DatasetError(`Dataset "${version}" could not be read from ${file}`);
+  }
+  const { data, report } = parseDataset(json, version);
+  logDatasetReport(report);
+  return data;
+};
+
+const buildServerGraph = async (version: DatasetVersion, strengthMethod: StrengthMethod): Promise<ServerGraph> => {
+  const data = await loadServerDataset(version);
+  const graph = new Graph();
+  data.nodes.forEach((node) => graph.addNode(node.id, { ...node }));
+  data.edges.forEach((edge) => {
+    if (!graph.hasEdge(edge.source, edge.target)) {
+      graph.addEdge(edge.source, edge.target, { strength: edge.strength });
+    }
+  });
+  // Like the browser, communities use the default weights whatever the requested method
+  normalizeEdgeStrengths(graph, DEFAULT_STRENGTH_METHOD);
+  detectCommunities(graph).assignments.forEach((c, node) => graph.setNodeAttribute(node, 'community', c));
+  const strengthScale = normalizeEdgeStrengths(graph, strengthMethod);
+  return {
+    version,
+    strengthMethod,
+    graph,
+    strengthScale,
+    nodes: new Map(data.nodes.map((n) => [n.id, n])),
+    searchIndex: buildSearchIndex(data.nodes),
+  };
+};
+
+// A failed load is forgotten so the next request retries instead of caching the error
+const cached = <K, V>(cache: Map<K, Promise<V>>, key: K, load: () => Promise<V>): Promise<V> => {
+  let pending = cache.get(key);
+  if (!pending) {
+    pending = load();
+    cache.set(key, pending);
+    pending.catch(() => cache.delete(key));
+  }
+  return pending;
+};
+
+export const loadServerDataset = (version: DatasetVersion) =>
+  cached(datasets, version, () => readDataset(version));
+
+export const loadServerGraph = (version: DatasetVersion, strengthMethod: StrengthMethod) =>
+  cached(graphs, `${version}:${strengthMethod}`, () => buildServerGraph(version, strengthMethod));
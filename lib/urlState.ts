@@ -0,0 +1,161 @@
+import { DEFAULT_STRENGTH_METHOD, STRENGTH_METHODS, StrengthMethod } from './edgeStrength';
+import { DEFAULT_RANKING_MODE, RANKING_MODES, RankingMode } from './recommend';
+import { COLOR_MODES, ColorMode, DEFAULT_COLOR_MODE } from './communities';
+import { MAX_EGO_DEPTH } from './egoNetwork';
+import { GenreFilter, formatGenreFilter, parseGenreFilter } from './genreFilter';
+
+// ==========================================
+// Shareable view state
+// Selections, filters and camera encoded in the query string, e.g.
+// /?s=2,4&x=6&score=7&raters=1000&strength=0.02&genres=Romance,-Harem&award=1&color=community&community=2&q=genre:Romance&cam=0.5,0.5,1
+// ==========================================
+
+export type ViewFilters = {
+  minStrength: number;
+  minScore: number;
+  // Minimum number of MAL raters (scored_by)
+  minRaters: number;
+  genreFilter: GenreFilter;
+  isAwardWinningOnly: boolean;
+  strengthMethod: StrengthMethod;
+  rankingMode: RankingMode;
+  minSeedLinks: number;
+  // Hops around the picks (1 = direct recommendations only)
+  egoDepth: number;
+  colorMode: ColorMode;
+  // Show only this community (see lib/communities.ts); null shows all
+  community: number | null;
+  // Advanced filter expression (see lib/query.ts); when set it replaces the score and genre filters
+  query: string;
+};
+
+export const DEFAULT_FILTERS: ViewFilters = {
+  minStrength: 0.0,
+  minScore: 6.0,
+  minRaters: 0,
+  genreFilter: new Map(),
+  isAwardWinningOnly: false,
+  strengthMethod: DEFAULT_STRENGTH_METHOD,
+  rankingMode: DEFAULT_RANKING_MODE,
+  minSeedLinks: 1,
+  egoDepth: 1,
+  colorMode: DEFAULT_COLOR_MODE,
+  community: null,
+  query: '',
+};
+
+export type CameraView = { x: number; y: number; ratio: number };
+
+export type UrlState = {
+  selected: string[];
+  disliked: string[];
+  filters: ViewFilters;
+  camera: CameraView | null;
+};
+
+export type UrlQuery = Record<string, string | string[] | undefined>;
+
+const KEYS = {
+  selected: 's',
+  disliked: 'x',
+  minScore: 'score',
+  minRaters: 'raters',
+  minStrength: 'strength',
+  genres: 'genres',
+  award: 'award',
+  strengthMethod: 'weighting',
+  rankingMode: 'rank',
+  minSeedLinks: 'links',
+  egoDepth: 'hops',
+  colorMode: 'color',
+  community: 'community',
+  query: 'q',
+  camera: 'cam',
+} as const;
+
+const MANAGED_KEYS = new Set<string>(Object.values(KEYS));
+
+const first = (v: string | string[] | undefined) => (Array.isArray(v) ? v[0] : v);
+
+const readList = (v: string | string[] | undefined) =>
+  (first(v) || '').split(',').map((s) => s.trim()).filter(Boolean);
+
+const readNumber = (v: string | string[] | undefined, fallback: number) => {
+  const n = Number(first(v));
+  return first(v) !== undefined && Number.isFinite(n) ? n : fallback;
+};
+
+const readOption = <T extends string>(v: string | string[] | undefined, options: { id: T }[], fallback: T): T =>
+  options.find((o) => o.id === first(v))?.id ?? fallback;
+
+// Trim float noise so links stay short
+const round = (n: number, digits = 4) => String(Number(n.toFixed(digits)));
+
+export const queryFromSearch = (search: string): UrlQuery =>
+  Object.fromEntries(new URLSearchParams(search.startsWith('?') ? search.slice(1) : search));
+
+export const parseUrlState = (query: UrlQuery): UrlState => {
+  const cam = readList(query[KEYS.camera]).map(Number);
+  const community = readNumber(query[KEYS.community], -1);
+  return {
+    selected: readList(query[KEYS.selected]),
+    disliked: readList(query[KEYS.disliked]),
+    filters: {
+      minScore: readNumber(query[KEYS.minScore], DEFAULT_FILTERS.minScore),
+      minRaters: Math.max(0, Math.round(readNumber(query[KEYS.minRaters], DEFAULT_FILTERS.minRaters))),
+      minStrength: readNumber(query[KEYS.minStrength], DEFAULT_FILTERS.minStrength),
+      genreFilter: parseGenreFilter(readList(query[KEYS.genres])),
+      isAwardWinningOnly: first(query[KEYS.award]) === '1',
+      strengthMethod: readOption(query[KEYS.strengthMethod], STRENGTH_METHODS, DEFAULT_FILTERS.strengthMethod),
+      rankingMode: readOption(query[KEYS.rankingMode], RANKING_MODES, DEFAULT_FILTERS.rankingMode),
+      minSeedLinks: Math.max(1, Math.round(readNumber(query[KEYS.minSeedLinks], DEFAULT_FILTERS.minSeedLinks))),
+      egoDepth: Math.min(MAX_EGO_DEPTH, Math.max(1, Math.round(readNumber(query[KEYS.egoDepth], DEFAULT_FILTERS.egoDepth)))),
+      colorMode: readOption(query[KEYS.colorMode], COLOR_MODES, DEFAULT_FILTERS.colorMode),
+      community: Number.isInteger(community) && community >= 0 ? community : DEFAULT_FILTERS.community,
+      query: (first(query[KEYS.query]) || '').trim(),
+    },
+    camera: cam.length === 3 && cam.every(Number.isFinite) && cam[2] > 0
+      ? { x: cam[0], y: cam[1], ratio: cam[2] }
+      : null,
+  };
+};
+
+// Replaces the managed keys of `base` with `state`, leaving others (e.g. ?dataset=) untouched.
+// Values equal to the defaults are omitted.
+export const buildUrlQuery = (base: UrlQuery, state: UrlState): UrlQuery => {
+  const query: UrlQuery = {};
+  Object.entries(base).forEach(([key, value]) => {
+    if (!MANAGED_KEYS.has(key) && value !== undefined) query[key] = value;
+  });
+  const { filters, camera } = state;
+
+  if (state.selected.length > 0) query[KEYS.selected] = state.selected.join(',');
+  if (state.disliked.length > 0) query[KEYS.disliked] = state.disliked.join(',');
+  if (filters.minScore !== DEFAULT_FILTERS.minScore) query[KEYS.minScore] = round(filters.minScore);
+  if (filters.minRaters !== DEFAULT_FILTERS.minRaters) query[KEYS.minRaters] = String(filters.minRaters);
+  if (filters.minStrength !== DEFAULT_FILTERS.minStrength) query[KEYS.minStrength] = round(filters.minStrength, 6);
+  if (filters.genreFilter.size > 0) query[KEYS.genres] = formatGenreFilter(filters.genreFilter).join(',');
+  if (filters.isAwardWinningOnly) query[KEYS.award] = '1';
+  if (filters.strengthMethod !== DEFAULT_FILTERS.strengthMethod) query[KEYS.strengthMethod] = filters.strengthMethod;
+  if (filters.rankingMode !== DEFAULT_FILTERS.rankingMode) query[KEYS.rankingMode] = filters.rankingMode;
+  if (filters.minSeedLinks !== DEFAULT_FILTERS.minSeedLinks) query[KEYS.minSeedLinks] = String(filters.minSeedLinks);
+  if (filters.egoDepth !== DEFAULT_FILTERS.egoDepth) query[KEYS.egoDepth] = String(filters.egoDepth);
+  if (filters.colorMode !== DEFAULT_FILTERS.colorMode) query[KEYS.colorMode] = filters.colorMode;
+  if (filters.community !== null) query[KEYS.community] = String(filters.community);
+  if (filters.query) query[KEYS.query] = filters.query;
+  if (camera) query[KEYS.camera] = [round(camera.x), round(camera.y), round(camera.ratio)].join(',');
+  return query;
+};
+
+// Canonical form used to tell whether the URL already reflects a state
+export const toSearchString = (query: UrlQuery): string => {
+  const params = new URLSearchParams();
+  Object.keys(query).sort().forEach((key) => {
+    const value = first(query[key]);
+    if (value !== undefined) params.set(key, value);
+  });
+  return params.toString();
+};
+
+export const selectionKey = (state: Pick<UrlState, 'selected' | 'disliked'>) =>
+  `${state.selected.join(',')}|${state.disliked.join(',')}`;
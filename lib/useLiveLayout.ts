@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Graph from 'graphology';
+import FA2LayoutSupervisor from 'graphology-layout-forceatlas2/worker';
+import { ForceAtlas2Settings } from 'graphology-layout-forceatlas2';
+import { seedGenrePositions } from './layout';
+
+// ==========================================
+// Live ForceAtlas2 layout
+// Iterations run in graphology's FA2 web worker. The main thread only samples
+// node positions and stops the worker once the layout has settled.
+// ==========================================
+
+const SAMPLE_INTERVAL_MS = 1000;
+// Mean movement per iteration, relative to the layout's diagonal, below which a sample counts as calm
+const CONVERGENCE_THRESHOLD = 1e-4;
+const CALM_SAMPLES_TO_STOP = 3;
+// FA2 with Barnes-Hut never fully settles, so give up after this long regardless
+const MAX_RUN_MS = 60_000;
+
+type Positions = Map<string, { x: number; y: number }>;
+
+const readPositions = (graph: Graph): Positions => {
+  const positions: Positions = new Map();
+  graph.forEachNode((node, attrs) => positions.set(node, { x: attrs.x, y: attrs.y }));
+  return positions;
+};
+
+// Average distance moved since `previous`, as a fraction of the bounding box diagonal
+const relativeMovement = (previous: Positions, current: Positions): number => {
+  let total = 0;
+  let count = 0;
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  current.forEach(({ x, y }, node) => {
+    minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+    const before = previous.get(node);
+    if (!before) return;
+    total += Math.hypot(x - before.x, y - before.y);
+    count++;
+  });
+  const diagonal = Math.hypot(maxX - minX, maxY - minY);
+  return count > 0 && diagonal > 0 ? total / count / diagonal : 0;
+};
+
+export const useLiveLayout = (graph: Graph, settings: ForceAtlas2Settings, autoStart = true) => {
+  const layoutRef = useRef<FA2LayoutSupervisor | null>(null);
+  const [isRunning, setIsRunning] = useState(autoStart);
+  // Bumped to restart the worker from the current positions even if it is already running
+  const [runId, setRunId] = useState(0);
+
+  useEffect(() => {
+    const layout = new FA2LayoutSupervisor(graph, { settings });
+    layoutRef.current = layout;
+    return () => {
+      layout.kill();
+      layoutRef.current = null;
+    };
+  }, [graph, settings]);
+
+  useEffect(() => {
+    const layout = layoutRef.current;
+    if (!layout || !isRunning) return;
+    layout.start();
+
+    // The supervisor writes all positions once per worker iteration
+    let iterations = 0;
+    const countIteration = () => { iterations++; };
+    graph.on('eachNodeAttributesUpdated', countIteration);
+
+    const startedAt = Date.now();
+    let previous = readPositions(graph);
+    let calmSamples = 0;
+    const timer = setInterval(() => {
+      if (iterations === 0) return;
+      const current = readPositions(graph);
+      const movement = relativeMovement(previous, current) / iterations;
+      previous = current;
+      iterations = 0;
+      calmSamples = movement < CONVERGENCE_THRESHOLD ? calmSamples + 1 : 0;
+      if (calmSamples >= CALM_SAMPLES_TO_STOP || Date.now() - startedAt > MAX_RUN_MS) {
+        setIsRunning(false);
+      }
+    }, SAMPLE_INTERVAL_MS);
+
+    return () => {
+      clearInterval(timer);
+      graph.removeListener('eachNodeAttributesUpdated', countIteration);
+      layout.stop();
+    };
+  }, [graph, isRunning, runId]);
+
+  // Continue from the current positions (e.g. after a node was dragged)
+  const resume = useCallback(() => {
+    setIsRunning(true);
+    setRunId((id) => id + 1);
+  }, []);
+
+  const pause = useCallback(() => setIsRunning(false), []);
+
+  // Halts the worker without changing the play/pause state; pair with `resume`
+  const suspend = useCallback(() => {
+    layoutRef.current?.stop();
+  }, []);
+
+  // Re-seeds the nodes around their genre angles and lays the graph out again from scratch
+  const rerun = useCallback(() => {
+    seedGenrePositions(graph);
+    resume();
+  }, [graph, resume]);
+
+  return { isRunning, pause, resume, suspend, rerun };
+};
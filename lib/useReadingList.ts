@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ReadingList,
+  ReadingStatus,
+  loadReadingList,
+  mergeReadingEntries,
+  saveReadingList,
+  updateReadingEntry,
+} from './readingList';
+
+export const useReadingList = () => {
+  const [readingList, setReadingList] = useState<ReadingList>(new Map());
+  const loadedRef = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadReadingList().then((list) => {
+      if (cancelled) return;
+      loadedRef.current = true;
+      // Keep anything edited while the stored list was still loading
+      setReadingList((prev) => new Map([...list, ...prev]));
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    if (!loadedRef.current) return;
+    saveReadingList(readingList);
+  }, [readingList]);
+
+  const setReadingStatus = useCallback((id: string, status: ReadingStatus | null) => {
+    setReadingList((prev) => updateReadingEntry(prev, id, { status }));
+  }, []);
+
+  const setReadingRating = useCallback((id: string, rating: number | null) => {
+    setReadingList((prev) => updateReadingEntry(prev, id, { rating }));
+  }, []);
+
+  // Bulk update (e.g. from a MAL import); existing entries are overwritten
+  const importReadingEntries = useCallback((entries: { id: string; status: ReadingStatus; rating: number | null }[]) => {
+    setReadingList((prev) => mergeReadingEntries(prev, entries));
+  }, []);
+
+  return { readingList, setReadingList, setReadingStatus, setReadingRating, importReadingEntries };
+};
@@ -0,0 +1,54 @@
+import { useCallback, useState } from 'react';
+
+// ==========================================
+// Saved filter queries
+// Named query strings (lib/query.ts) kept in localStorage.
+// ==========================================
+
+export type SavedQuery = { name: string; query: string };
+
+const STORAGE_KEY = 'manga-nexus:saved-queries';
+
+const loadSavedQueries = (): SavedQuery[] => {
+  try {
+    const json: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    if (!Array.isArray(json)) return [];
+    return json.filter((q): q is SavedQuery =>
+      !!q && typeof q === 'object' && typeof q.name === 'string' && typeof q.query === 'string'
+    );
+  } catch {
+    return [];
+  }
+};
+
+const storeSavedQueries = (queries: SavedQuery[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(queries));
+  } catch (e) {
+    console.error('Failed to save queries', e);
+  }
+};
+
+export const useSavedQueries = () => {
+  // Only used client-side (GraphView is rendered without SSR), so storage can be read up front
+  const [savedQueries, setSavedQueries] = useState<SavedQuery[]>(loadSavedQueries);
+
+  const update = useCallback((fn: (prev: SavedQuery[]) => SavedQuery[]) => {
+    setSavedQueries((prev) => {
+      const next = fn(prev);
+      storeSavedQueries(next);
+      return next;
+    });
+  }, []);
+
+  // Saving under an existing name overwrites it
+  const saveQuery = useCallback((name: string, query: string) => {
+    update((prev) => [...prev.filter((q) => q.name !== name), { name, query }].sort((a, b) => a.name.localeCompare(b.name)));
+  }, [update]);
+
+  const deleteQuery = useCallback((name: string) => {
+    update((prev) => prev.filter((q) => q.name !== name));
+  }, [update]);
+
+  return { savedQueries, saveQuery, deleteQuery };
+};
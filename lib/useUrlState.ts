@@ -0,0 +1,111 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/router';
+import {
+  CameraView,
+  DEFAULT_FILTERS,
+  UrlState,
+  ViewFilters,
+  buildUrlQuery,
+  parseUrlState,
+  queryFromSearch,
+  selectionKey,
+  toSearchString,
+} from './urlState';
+
+// Filter and camera tweaks replace the current history entry after this delay;
+// selection changes push a new entry immediately so back/forward walks through them.
+const REPLACE_DELAY_MS = 400;
+
+const EMPTY_STATE: UrlState = { selected: [], disliked: [], filters: DEFAULT_FILTERS, camera: null };
+
+// The page itself is server-rendered, so the URL can only be read on the client
+const readInitialState = (): UrlState =>
+  typeof window === 'undefined' ? EMPTY_STATE : parseUrlState(queryFromSearch(window.location.search));
+
+export const useUrlState = () => {
+  const router = useRouter();
+  const [initial] = useState(readInitialState);
+
+  const [selectedNodes, setSelectedNodes] = useState<Set<string>>(() => new Set(initial.selected));
+  const [dislikedNodes, setDislikedNodes] = useState<Set<string>>(() => new Set(initial.disliked));
+  const [filters, setFilters] = useState<ViewFilters>(initial.filters);
+  // Camera to restore (initial load and back/forward); live camera moves only go to the ref
+  const [cameraView, setCameraView] = useState<CameraView | null>(initial.camera);
+  const [cameraTick, setCameraTick] = useState(0);
+  const cameraRef = useRef<CameraView | null>(initial.camera);
+
+  const lastSearchRef = useRef<string | null>(null);
+  const lastSelectionRef = useRef(selectionKey(initial));
+  const pendingPushRef = useRef(false);
+
+  const updateFilters = useCallback((patch: Partial<ViewFilters>) => {
+    setFilters((prev) => ({ ...prev, ...patch }));
+  }, []);
+
+  const handleCameraChange = useCallback((view: CameraView) => {
+    cameraRef.current = view;
+    setCameraTick((t) => t + 1);
+  }, []);
+
+  // State -> URL
+  useEffect(() => {
+    if (!router.isReady) return;
+    const state: UrlState = {
+      selected: Array.from(selectedNodes),
+      disliked: Array.from(dislikedNodes),
+      filters,
+      camera: cameraRef.current,
+    };
+    const query = buildUrlQuery(router.query, state);
+    const search = toSearchString(query);
+    if (search === lastSearchRef.current) return;
+
+    const key = selectionKey(state);
+    if (key !== lastSelectionRef.current) pendingPushRef.current = true;
+    const isPush = pendingPushRef.current;
+
+    const timer = setTimeout(() => {
+      lastSearchRef.current = search;
+      lastSelectionRef.current = key;
+      pendingPushRef.current = false;
+      const url = { pathname: router.pathname, query };
+      if (isPush) router.push(url, undefined, { shallow: true, scroll: false });
+      else router.replace(url, undefined, { shallow: true, scroll: false });
+    }, isPush ? 0 : REPLACE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [router, selectedNodes, dislikedNodes, filters, cameraTick]);
+
+  // URL -> state, for back/forward navigation
+  useEffect(() => {
+    const handleRouteChange = (url: string) => {
+      const query = queryFromSearch(url.split('?')[1] || '');
+      const search = toSearchString(query);
+      if (search === lastSearchRef.current) return;
+
+      const next = parseUrlState(query);
+      lastSearchRef.current = search;
+      lastSelectionRef.current = selectionKey(next);
+      pendingPushRef.current = false;
+      setSelectedNodes(new Set(next.selected));
+      setDislikedNodes(new Set(next.disliked));
+      setFilters(next.filters);
+      if (next.camera) {
+        cameraRef.current = next.camera;
+        setCameraView(next.camera);
+      }
+    };
+    router.events.on('routeChangeComplete', handleRouteChange);
+    return () => router.events.off('routeChangeComplete', handleRouteChange);
+  }, [router.events]);
+
+  return {
+    selectedNodes,
+    setSelectedNodes,
+    dislikedNodes,
+    setDislikedNodes,
+    filters,
+    updateFilters,
+    cameraView,
+    onCameraChange: handleCameraChange,
+  };
+};
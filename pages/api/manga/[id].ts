@@ -0,0 +1,8 @@
+import { ApiError, graphRoute, toApiNode } from '../../../lib/api';
+
+// GET /api/manga/:id — one title with its degree in the full graph
+export default graphRoute((query, server) => {
+  const id = String(query.id);
+  if (!server.nodes.has(id)) throw new ApiError(404, `No manga with id "${id}"`);
+  return { node: toApiNode(server, id) };
+});
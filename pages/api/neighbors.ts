@@ -0,0 +1,39 @@
+import { graphRoute, readGraphFilters, readIds, readNumber, toApiEdge, toApiNode } from '../../lib/api';
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+
+// GET /api/neighbors?ids=1,2&minStrength=0.15&limit=100
+// The requested titles plus their strongest valid neighbors (up to `limit` per id),
+// with every valid edge among the returned nodes, ready to load into a graph.
+export default graphRoute((query, server) => {
+  const { graph } = server;
+  const ids = readIds(query, 'ids', true);
+  const limit = readNumber(query, 'limit', DEFAULT_LIMIT, { min: 1, max: MAX_LIMIT, integer: true });
+  const { isEdgeValid, isNodeValid } = readGraphFilters(query, server);
+
+  const found = ids.filter((id) => graph.hasNode(id));
+  const included = new Set(found);
+  found.forEach((id) => {
+    const ties: { neighbor: string; weight: number }[] = [];
+    graph.forEachEdge(id, (edge, attrs, source, target) => {
+      const neighbor = source === id ? target : source;
+      if (isEdgeValid(edge) && isNodeValid(neighbor)) ties.push({ neighbor, weight: Number(attrs.weight) || 0 });
+    });
+    ties
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, limit)
+      .forEach(({ neighbor }) => included.add(neighbor));
+  });
+
+  const edges: string[] = [];
+  graph.forEachEdge((edge, _attrs, source, target) => {
+    if (included.has(source) && included.has(target) && isEdgeValid(edge)) edges.push(edge);
+  });
+
+  return {
+    nodes: Array.from(included).map((id) => toApiNode(server, id)),
+    edges: edges.map((edge) => toApiEdge(server, edge)),
+    missing: ids.filter((id) => !graph.hasNode(id)),
+  };
+});
@@ -0,0 +1,26 @@
+import { graphRoute, readGraphFilters, readIds, readNumber, readOption, toApiNode } from '../../lib/api';
+import { DEFAULT_RANKING_MODE, RANKING_MODES, rankRecommendations } from '../../lib/recommend';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 200;
+
+// GET /api/recommend?ids=1,2&avoid=3&mode=normalized&minSeedLinks=1&limit=20
+// Ranks titles against the picks with the same logic as the Related list.
+export default graphRoute((query, server) => {
+  const { graph } = server;
+  const ids = readIds(query, 'ids', true);
+  const avoid = readIds(query, 'avoid', false);
+  const mode = readOption(query, 'mode', RANKING_MODES, DEFAULT_RANKING_MODE);
+  const minSeedLinks = readNumber(query, 'minSeedLinks', 1, { min: 1, integer: true });
+  const limit = readNumber(query, 'limit', DEFAULT_LIMIT, { min: 1, max: MAX_LIMIT, integer: true });
+  const { isEdgeValid, isNodeValid } = readGraphFilters(query, server);
+
+  const ranked = rankRecommendations(graph, ids, { mode, minSeedLinks, isEdgeValid, isNodeValid, avoid });
+  return {
+    recommendations: Array.from(ranked.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ id, score, seedLinks, penalty }) => ({ node: toApiNode(server, id), score, seedLinks, penalty })),
+    missing: [...ids, ...avoid].filter((id) => !graph.hasNode(id)),
+  };
+});
@@ -0,0 +1,19 @@
+import { ApiError, graphRoute, readNumber, readString, toApiNode } from '../../lib/api';
+import { searchTitles } from '../../lib/search';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+// GET /api/search?q=haruhi&limit=10 — same matching as the sidebar search (titles, aliases, romaji, typos)
+export default graphRoute((query, server) => {
+  const q = readString(query, 'q');
+  if (!q) throw new ApiError(400, '"q" is required');
+  const limit = readNumber(query, 'limit', DEFAULT_LIMIT, { min: 1, max: MAX_LIMIT, integer: true });
+  return {
+    results: searchTitles(server.searchIndex, q, limit).map(({ node, kind, matched }) => ({
+      node: toApiNode(server, node.id),
+      kind,
+      matched,
+    })),
+  };
+});
@@ -1,39 +1,101 @@
 import Head from 'next/head';
-import { useState } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import dynamic from 'next/dynamic';
 import DetailPanel, { MangaNode } from '../components/DetailPanel';
+import { useUrlState } from '../lib/useUrlState';
+import { useReadingList } from '../lib/useReadingList';
+import { Explanation } from '../lib/explain';
 
 // Disable SSR for GraphView as it depends on window/document objects
 const GraphView = dynamic(() => import('../components/GraphView'), {
   ssr: false,
 });
 
+const EMPTY_EDGES = new Set<string>();
+
 export default function Home() {
-  const [selectedNodes, setSelectedNodes] = useState<Set<string>>(new Set());
-  const [lastSelectedNode, setLastSelectedNode] = useState<MangaNode | null>(null);
+  const {
+    selectedNodes,
+    setSelectedNodes,
+    dislikedNodes,
+    setDislikedNodes,
+    filters,
+    updateFilters,
+    cameraView,
+    onCameraChange,
+  } = useUrlState();
+  const { readingList, setReadingStatus, setReadingRating, importReadingEntries } = useReadingList();
+  const [nodeIndex, setNodeIndex] = useState<Map<string, MangaNode>>(new Map());
   const [isDiscoveryOpen, setIsDiscoveryOpen] = useState(false);
+  // A recommendation opened from the Related list, explained in the Detail Panel
+  const [inspectedId, setInspectedId] = useState<string | null>(null);
+  const [explanation, setExplanation] = useState<Explanation | null>(null);
+  const [highlightedEdges, setHighlightedEdges] = useState<Set<string>>(new Set());
+
+  const handleNodesLoaded = useCallback((nodes: MangaNode[]) => {
+    setNodeIndex(new Map(nodes.map((n) => [n.id, n])));
+  }, []);
+
+  // The most recently added pick drives the Detail Panel (also after restoring from a link)
+  const lastSelectedNode = useMemo(() => {
+    const ids = Array.from(selectedNodes);
+    return nodeIndex.get(ids[ids.length - 1]) ?? null;
+  }, [selectedNodes, nodeIndex]);
+
+  // Only recommendations are explained: picking the inspected title (or clearing the picks) closes it
+  const inspectedNode = useMemo(() => {
+    if (!inspectedId || selectedNodes.size === 0 || selectedNodes.has(inspectedId)) return null;
+    return nodeIndex.get(inspectedId) ?? null;
+  }, [inspectedId, selectedNodes, nodeIndex]);
+  const activeExplanation = inspectedNode && explanation?.target === inspectedNode.id ? explanation : null;
+
+  const handleInspectNode = useCallback((nodeId: string | null) => {
+    setInspectedId(nodeId);
+    setHighlightedEdges(new Set());
+  }, []);
 
   // Handle toggling a node's selection status
   const handleToggleNode = (node: MangaNode) => {
     setSelectedNodes((prev) => {
       const next = new Set(prev);
-      if (next.has(node.id)) {
-        next.delete(node.id);
-        if (lastSelectedNode?.id === node.id) setLastSelectedNode(null);
-      } else {
-        next.add(node.id);
-        setLastSelectedNode(node);
-      }
+      if (next.has(node.id)) next.delete(node.id);
+      else next.add(node.id);
+      return next;
+    });
+    // Liking a title takes it off the "not for me" list
+    setDislikedNodes((prev) => {
+      if (!prev.has(node.id)) return prev;
+      const next = new Set(prev);
+      next.delete(node.id);
+      return next;
+    });
+  };
+
+  // Handle toggling a node's "not for me" status
+  const handleToggleDislike = (node: MangaNode) => {
+    setDislikedNodes((prev) => {
+      const next = new Set(prev);
+      if (next.has(node.id)) next.delete(node.id);
+      else next.add(node.id);
+      return next;
+    });
+    setSelectedNodes((prev) => {
+      if (!prev.has(node.id)) return prev;
+      const next = new Set(prev);
+      next.delete(node.id);
       return next;
     });
   };
 
-  // Clear all selected nodes
+  // Clear all selected and disliked nodes
   const handleClear = () => {
     setSelectedNodes(new Set());
-    setLastSelectedNode(null);
+    setDislikedNodes(new Set());
+    handleInspectNode(null);
   };
 
+  const detailNode = inspectedNode ?? lastSelectedNode;
+
   return (
     <div className="flex flex-col h-screen w-screen overflow-hidden bg-gray-50 fixed inset-0">
       <Head>
@@ -77,7 +139,21 @@ export default function Home() {
           <GraphView 
             selectedNodes={selectedNodes} 
             onToggleNode={handleToggleNode} 
+            dislikedNodes={dislikedNodes}
+            onToggleDislike={handleToggleDislike}
             onClearSelection={handleClear}
+            readingList={readingList}
+            onSetReadingStatus={setReadingStatus}
+            onImportReadingEntries={importReadingEntries}
+            onNodesLoaded={handleNodesLoaded}
+            filters={filters}
+            onFiltersChange={updateFilters}
+            cameraView={cameraView}
+            onCameraChange={onCameraChange}
+            inspectedNode={inspectedNode?.id ?? null}
+            onInspectNode={handleInspectNode}
+            onExplanation={setExplanation}
+            highlightedEdges={activeExplanation ? highlightedEdges : EMPTY_EDGES}
             isDiscoveryOpen={isDiscoveryOpen}
             onDiscoveryClose={() => setIsDiscoveryOpen(false)}
             // ▼ 追加: グラフ内のボタンからも開けるように関数を渡す
@@ -86,7 +162,7 @@ export default function Home() {
         </div>
 
         {/* Detail Panel */}
-        {lastSelectedNode && (
+        {detailNode && (
           <div className={`
             z-20 shadow-2xl transition-transform duration-300
             /* Mobile Styles: Bottom Sheet */
@@ -95,7 +171,20 @@ export default function Home() {
             md:absolute md:top-0 md:right-0 md:bottom-0 md:left-auto md:h-full md:w-[350px] md:rounded-none md:border-l md:border-t-0
           `}>
             <div className="h-full overflow-y-auto">
-              <DetailPanel selected={lastSelectedNode} onReset={handleClear} />
+              <DetailPanel
+                selected={detailNode}
+                onReset={inspectedNode ? () => handleInspectNode(null) : handleClear}
+                isDisliked={dislikedNodes.has(detailNode.id)}
+                onToggleDislike={handleToggleDislike}
+                readingEntry={readingList.get(detailNode.id) ?? null}
+                onSetReadingStatus={setReadingStatus}
+                onSetReadingRating={setReadingRating}
+                explanation={activeExplanation}
+                nodeIndex={nodeIndex}
+                highlightedEdges={highlightedEdges}
+                onHighlightEdges={setHighlightedEdges}
+                onAddToPicks={handleToggleNode}
+              />
             </div>
           </div>
         )}
@@ -0,0 +1,97 @@
+// ==========================================
+// Bake layout
+// Computes a stable ForceAtlas2 layout offline and writes x/y into every node
+// of a graph JSON, so the browser can skip the live layout on load. The same
+// input, iterations and seed always produce the same file.
+//
+//   npm run bake-layout -- public/graph-data-v3.json [--out file.json] [--iterations 1000] [--seed 42]
+// ==========================================
+
+import { readFileSync, writeFileSync } from 'fs';
+import Graph from 'graphology';
+import forceAtlas2 from 'graphology-layout-forceatlas2';
+import { formatDatasetReport, parseDataset } from '../lib/dataset';
+import { DEFAULT_STRENGTH_METHOD, normalizeEdgeStrengths } from '../lib/edgeStrength';
+import {
+  INITIAL_LAYOUT_ITERATIONS,
+  INITIAL_LAYOUT_SETTINGS,
+  LIVE_LAYOUT_SETTINGS,
+  applyDegreeSizes,
+  createRandom,
+  seedGenrePositions,
+} from '../lib/layout';
+
+const DEFAULT_ITERATIONS = 1000;
+const DEFAULT_SEED = 42;
+// Two decimals is far below a pixel at any zoom level and keeps the JSON diff small
+const round = (v: number) => Math.round(v * 100) / 100;
+
+const usage = () => {
+  console.error('Usage: npm run bake-layout -- <graph.json> [--out file.json] [--iterations n] [--seed n]');
+  process.exit(1);
+};
+
+const parseArgs = (argv: string[]) => {
+  const args = { input: '', out: '', iterations: DEFAULT_ITERATIONS, seed: DEFAULT_SEED };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => argv[++i] ?? usage();
+    if (arg === '--out') args.out = next();
+    else if (arg === '--iterations') args.iterations = Number(next());
+    else if (arg === '--seed') args.seed = Number(next());
+    else if (!arg.startsWith('--') && !args.input) args.input = arg;
+    else usage();
+  }
+  if (!args.input || !Number.isInteger(args.iterations) || args.iterations < 0 || !Number.isFinite(args.seed)) usage();
+  return { ...args, out: args.out || args.input };
+};
+
+const main = () => {
+  const { input, out, iterations, seed } = parseArgs(process.argv.slice(2));
+  const json = JSON.parse(readFileSync(input, 'utf-8'));
+  const { data, report } = parseDataset(json);
+  console.log(formatDatasetReport(report));
+
+  // Same graph the browser builds, but with every node (including the ones its score
+  // and degree filters drop) so the stored layout stays complete whatever those are set to
+  const graph = new Graph();
+  data.nodes.forEach((node) => graph.addNode(node.id, { genres: node.genres, x: 0, y: 0 }));
+  data.edges.forEach((edge) => {
+    if (!graph.hasEdge(edge.source, edge.target)) {
+      graph.addEdge(edge.source, edge.target, { strength: edge.strength });
+    }
+  });
+
+  normalizeEdgeStrengths(graph, DEFAULT_STRENGTH_METHOD);
+  applyDegreeSizes(graph);
+  seedGenrePositions(graph, createRandom(seed));
+
+  const startedAt = Date.now();
+  forceAtlas2.assign(graph, { iterations: INITIAL_LAYOUT_ITERATIONS, settings: INITIAL_LAYOUT_SETTINGS });
+  forceAtlas2.assign(graph, { iterations, settings: LIVE_LAYOUT_SETTINGS });
+  console.log(`Laid out ${graph.order} nodes in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+
+  // Write into the raw payload so legacy fields and key order survive untouched
+  let baked = 0;
+  (json.nodes as Record<string, unknown>[]).forEach((raw) => {
+    const id = String(raw.id);
+    if (graph.hasNode(id)) {
+      raw.x = round(graph.getNodeAttribute(id, 'x'));
+      raw.y = round(graph.getNodeAttribute(id, 'y'));
+      baked++;
+    } else {
+      delete raw.x;
+      delete raw.y;
+    }
+  });
+  json.layout = {
+    algorithm: 'forceatlas2',
+    iterations: INITIAL_LAYOUT_ITERATIONS + iterations,
+    seed,
+  };
+
+  writeFileSync(out, JSON.stringify(json, null, 2) + '\n');
+  console.log(`Wrote positions for ${baked}/${json.nodes.length} nodes to ${out}`);
+};
+
+main();
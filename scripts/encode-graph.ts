@@ -0,0 +1,72 @@
+// ==========================================
+// Encode graph
+// Writes a graph JSON in the compact binary format (lib/binaryGraph.ts), then
+// decodes the result and checks it against the JSON before reporting sizes
+// and parse times. Exits non-zero if the round trip loses anything.
+//
+//   npm run encode-graph -- public/graph-data-v3.json [--out file.bin]
+//
+// The output defaults to the dataset path with `.bin`, which is where the app looks for it.
+// ==========================================
+
+import { readFileSync, writeFileSync } from 'fs';
+import { gzipSync } from 'zlib';
+import { formatDatasetReport, parseDataset } from '../lib/dataset';
+import { binaryPathFor, compareGraphs, decodeGraph, encodeGraph } from '../lib/binaryGraph';
+
+// Parse timings are averaged over a few runs so one GC pause doesn't decide them
+const TIMING_RUNS = 5;
+
+const usage = () => {
+  console.error('Usage: npm run encode-graph -- <graph.json> [--out file.bin]');
+  process.exit(1);
+};
+
+const parseArgs = (argv: string[]) => {
+  const args = { input: '', out: '' };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => argv[++i] ?? usage();
+    if (arg === '--out') args.out = next();
+    else if (!arg.startsWith('--') && !args.input) args.input = arg;
+    else usage();
+  }
+  if (!args.input) usage();
+  return { ...args, out: args.out || binaryPathFor(args.input) };
+};
+
+const time = (run: () => void) => {
+  const startedAt = performance.now();
+  for (let i = 0; i < TIMING_RUNS; i++) run();
+  return (performance.now() - startedAt) / TIMING_RUNS;
+};
+
+const kb = (bytes: number) => `${(bytes / 1024).toFixed(0)} KB`;
+
+const main = () => {
+  const { input, out } = parseArgs(process.argv.slice(2));
+  const text = readFileSync(input, 'utf-8');
+  const { data, report } = parseDataset(JSON.parse(text));
+  console.log(formatDatasetReport(report));
+
+  const bytes = encodeGraph(data);
+  writeFileSync(out, bytes);
+
+  // Verify what was written, not the in-memory buffer
+  const written = new Uint8Array(readFileSync(out));
+  const issues = compareGraphs(data, decodeGraph(written));
+  if (issues.length > 0) {
+    console.error(`Round trip mismatch in ${out}:\n  ${issues.join('\n  ')}`);
+    process.exit(1);
+  }
+
+  const jsonBytes = Buffer.byteLength(text);
+  const jsonMs = time(() => parseDataset(JSON.parse(text)));
+  const binaryMs = time(() => decodeGraph(written));
+  console.log(`Wrote ${out} (${data.nodes.length} nodes, ${data.edges.length} edges), round trip verified`);
+  console.log(`  size     ${kb(jsonBytes)} JSON -> ${kb(bytes.length)} binary`);
+  console.log(`  gzipped  ${kb(gzipSync(text).length)} JSON -> ${kb(gzipSync(bytes).length)} binary`);
+  console.log(`  parse    ${jsonMs.toFixed(1)} ms JSON + validation -> ${binaryMs.toFixed(1)} ms decode`);
+};
+
+main();
@@ -0,0 +1,77 @@
+// ==========================================
+// Split dataset
+// Writes a graph JSON as a node index plus edge shards per importance tier,
+// which the browser loads progressively (lib/chunkedDataset.ts).
+//
+//   npm run split-dataset -- public/graph-data-v3.json [--out dir] [--core 200] [--shard-size 20000]
+//
+// The output directory defaults to the dataset path without `.json`, which is
+// where the app looks for it.
+// ==========================================
+
+import { mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import path from 'path';
+import { formatDatasetReport, parseDataset } from '../lib/dataset';
+import {
+  CHUNK_FORMAT,
+  CHUNK_INDEX_FILE,
+  ChunkIndex,
+  DEFAULT_CORE_SIZE,
+  DEFAULT_SHARD_SIZE,
+  assignTiers,
+  chunkDirectory,
+  splitEdgesByTier,
+} from '../lib/chunkedDataset';
+
+const SHARD_PATTERN = /^edges-\d+-\d+\.json$/;
+
+const usage = () => {
+  console.error('Usage: npm run split-dataset -- <graph.json> [--out dir] [--core n] [--shard-size n]');
+  process.exit(1);
+};
+
+const parseArgs = (argv: string[]) => {
+  const args = { input: '', out: '', core: DEFAULT_CORE_SIZE, shardSize: DEFAULT_SHARD_SIZE };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => argv[++i] ?? usage();
+    if (arg === '--out') args.out = next();
+    else if (arg === '--core') args.core = Number(next());
+    else if (arg === '--shard-size') args.shardSize = Number(next());
+    else if (!arg.startsWith('--') && !args.input) args.input = arg;
+    else usage();
+  }
+  if (!args.input || !Number.isInteger(args.core) || args.core < 1 || !Number.isInteger(args.shardSize) || args.shardSize < 1) usage();
+  return { ...args, out: args.out || chunkDirectory(args.input) };
+};
+
+const main = () => {
+  const { input, out, core, shardSize } = parseArgs(process.argv.slice(2));
+  const { data, report } = parseDataset(JSON.parse(readFileSync(input, 'utf-8')));
+  console.log(formatDatasetReport(report));
+
+  const tiers = assignTiers(data, core);
+  const edgesByTier = splitEdgesByTier(data.edges, tiers);
+
+  // Shards from an earlier split with other settings would linger otherwise
+  mkdirSync(out, { recursive: true });
+  readdirSync(out).filter((f) => SHARD_PATTERN.test(f)).forEach((f) => rmSync(path.join(out, f)));
+
+  const index: ChunkIndex = { format: CHUNK_FORMAT, nodes: data.nodes, tiers: [] };
+  tiers.forEach((ids, tier) => {
+    const edges = edgesByTier[tier];
+    const shards: string[] = [];
+    for (let start = 0; start < edges.length; start += shardSize) {
+      const file = `edges-${tier}-${shards.length}.json`;
+      writeFileSync(path.join(out, file), JSON.stringify({ edges: edges.slice(start, start + shardSize) }));
+      shards.push(file);
+    }
+    index.tiers.push({ nodes: ids, edgeCount: edges.length, shards });
+    console.log(`Tier ${tier}: ${ids.length} nodes, ${edges.length} edges in ${shards.length} shard(s)`);
+  });
+
+  writeFileSync(path.join(out, CHUNK_INDEX_FILE), JSON.stringify(index));
+  console.log(`Wrote ${out}/${CHUNK_INDEX_FILE}`);
+};
+
+main();
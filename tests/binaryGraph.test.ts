@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { DATASETS, parseDataset } from '../lib/dataset';
+import { compareGraphs, decodeGraph, encodeGraph } from '../lib/binaryGraph';
+
+// ==========================================
+// Binary graph round trip
+// Encodes the shipped v3 dataset and checks the decoded copy against the JSON
+// within the format's precision (lib/binaryGraph.ts).
+// ==========================================
+
+const loadShipped = () => {
+  const file = path.join(process.cwd(), 'public', DATASETS.v3.path);
+  return parseDataset(JSON.parse(readFileSync(file, 'utf-8')), 'v3').data;
+};
+
+test('the shipped v3 dataset survives an encode/decode round trip', () => {
+  const data = loadShipped();
+  const decoded = decodeGraph(encodeGraph(data));
+
+  assert.deepEqual(compareGraphs(data, decoded), []);
+  assert.equal(decoded.nodes.length, data.nodes.length);
+  assert.equal(decoded.edges.length, data.edges.length);
+});
+
+test('unrated titles decode as unrated, not as 0', () => {
+  const data = loadShipped();
+  const [rated, unrated] = data.nodes;
+  const sample = {
+    nodes: [{ ...rated, score: 8.25, scored_by: 1200 }, { ...unrated, score: null, scored_by: null }],
+    edges: [{ source: rated.id, target: unrated.id, strength: 3 }],
+  };
+  const [first, second] = decodeGraph(encodeGraph(sample)).nodes;
+
+  assert.equal(first.score, 8.25);
+  assert.equal(first.scored_by, 1200);
+  assert.equal(second.score, null);
+  assert.equal(second.scored_by, null);
+});
+
+test('compareGraphs reports a lost edge and a changed strength', () => {
+  const data = loadShipped();
+  const decoded = decodeGraph(encodeGraph(data));
+  const [dropped, changed] = decoded.edges;
+  const tampered = {
+    nodes: decoded.nodes,
+    edges: [{ ...changed, strength: changed.strength + 1000 }, ...decoded.edges.slice(2)],
+  };
+
+  const issues = compareGraphs(data, tampered);
+  assert.ok(issues.some((issue) => issue.includes('edge count')));
+  assert.ok(issues.some((issue) => issue.includes('is missing') && issue.includes(dropped.source)));
+  assert.ok(issues.some((issue) => issue.includes('strength')));
+});
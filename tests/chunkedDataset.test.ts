@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { DATASETS, parseDataset, parseEdgeShard } from '../lib/dataset';
+import { CHUNK_FORMAT, CHUNK_INDEX_FILE, ChunkIndex, assignTiers, chunkDirectory } from '../lib/chunkedDataset';
+
+// ==========================================
+// Split datasets
+// Every dataset declared as 'chunks' must have its split folder committed, and
+// the folder must still match the JSON it was split from.
+// ==========================================
+
+const publicFile = (file: string) => path.join(process.cwd(), 'public', file);
+const readJson = (file: string): unknown => JSON.parse(readFileSync(file, 'utf-8'));
+const edgeKey = ({ source, target }: { source: string; target: string }) =>
+  source < target ? `${source}|${target}` : `${target}|${source}`;
+
+const chunked = Object.entries(DATASETS).filter(([, { format }]) => format === 'chunks');
+
+test('at least one shipped dataset loads progressively', () => {
+  assert.ok(chunked.length > 0);
+});
+
+chunked.forEach(([version, { path: datasetPath }]) => {
+  test(`the split of ${version} matches ${datasetPath}`, () => {
+    const { data } = parseDataset(readJson(publicFile(datasetPath)));
+    const directory = publicFile(chunkDirectory(datasetPath));
+    const index = readJson(path.join(directory, CHUNK_INDEX_FILE)) as ChunkIndex;
+    assert.equal(index.format, CHUNK_FORMAT);
+    assert.ok(index.tiers.length > 1, 'everything landed in the first tier');
+
+    const indexed = parseDataset({ nodes: index.nodes, edges: [] }).data.nodes;
+    assert.deepEqual(indexed, data.nodes);
+    assert.deepEqual(index.tiers.map((t) => t.nodes), assignTiers(data));
+
+    const nodeIds = new Set(data.nodes.map((n) => n.id));
+    const shardEdges = index.tiers.flatMap((tier) =>
+      tier.shards.flatMap((shard) => parseEdgeShard(readJson(path.join(directory, shard)), nodeIds).edges)
+    );
+    const strengths = new Map(data.edges.map((e) => [edgeKey(e), e.strength]));
+    assert.equal(shardEdges.length, data.edges.length);
+    shardEdges.forEach((edge) => assert.equal(strengths.get(edgeKey(edge)), edge.strength, edgeKey(edge)));
+  });
+});